@@ -1,312 +1,246 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import GameScene from './GameScene.ts';
 import RcJoystickWrapper from './ui/RcJoystickWrapper.tsx';
+import Lobby from './ui/Lobby.tsx';
+import Hud from './ui/Hud.tsx';
+import ConnectionOverlay from './ui/ConnectionOverlay.tsx';
+import MatchEndScreen from './ui/MatchEndScreen.tsx';
+import PreMatchScreen from './ui/PreMatchScreen.tsx';
+import ErrorToasts from './ui/ErrorToasts.tsx';
+import ReplayControls from './ui/ReplayControls.tsx';
+import InstantReplayBanner from './ui/InstantReplayBanner.tsx';
+import SpectatorBar from './ui/SpectatorBar.tsx';
+import TutorialPanel from './ui/TutorialPanel.tsx';
+import ActionButtons from './ui/ActionButtons.tsx';
+import {
+  gameStore,
+  pushError,
+  selectConnection,
+  selectReplay,
+  selectSpectator,
+  useGameStore
+} from './store/gameStore.ts';
+import type { SpectatorView } from './game/SpectatorCamera.ts';
+import { parseReplayFile } from './replay/replayFormat.ts';
+import type { JoinTarget } from './net/ConnectionManager.ts';
+import InputManager from './input/InputManager.ts';
+import type { ButtonAction } from './input/bindings.ts';
+import type { BotDifficulty } from './offline/BotController.ts';
 import './App.css';
 
-interface GameState {
-  connected: boolean;
+// Local UI state only; everything driven by the server lives in gameStore
+interface AppState {
   nickname: string;
   showNicknameInput: boolean;
-  currentRole: string;
-  timeAsRey: number;
-  matchTime: number;
-  leaderboard: Array<{ nickname: string; timeAsRey: number }>;
-  showLeaderboard: boolean;
-  waitingForServe: boolean;
-  currentServer: string;
 }
 
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameSceneRef = useRef<GameScene | null>(null);
-  const [gameState, setGameState] = useState<GameState>({
-    connected: false,
+  const [gameState, setGameState] = useState<AppState>({
     nickname: '',
-    showNicknameInput: true,
-    currentRole: 'queue',
-    timeAsRey: 0,
-    matchTime: 0,
-    leaderboard: [],
-    showLeaderboard: false,
-    waitingForServe: false,
-    currentServer: ''
+    showNicknameInput: true
   });
+  const roomId = useGameStore(s => selectConnection(s).roomId);
+  const replaying = useGameStore(s => selectReplay(s).active);
+  const spectating = useGameStore(s => selectSpectator(s).active);
 
-  const [input, setInput] = useState({
-    move: [0, 0] as [number, number],
-    jump: false,
-    action: null as 'kick' | 'head' | 'serve' | null
-  });
-
-  // Track separate sources to resolve precedence (joystick wins while active)
-  const joystickVecRef = useRef<[number, number]>([0, 0]);
-  const keyboardVecRef = useRef<[number, number]>([0, 0]);
-  const lastSourceRef = useRef<'joystick' | 'keyboard' | null>(null);
-  const currentRoleRef = useRef<string>('queue');
-
-  // Keep currentRoleRef in sync with gameState.currentRole
-  useEffect(() => {
-    currentRoleRef.current = gameState.currentRole;
-  }, [gameState.currentRole]);
+  // Joystick, keyboard and gamepad merged into one InputState for the scene
+  const inputRef = useRef<InputManager | null>(null);
+  const [sceneReady, setSceneReady] = useState(false);
 
   useEffect(() => {
     if (canvasRef.current && !gameSceneRef.current) {
-      gameSceneRef.current = new GameScene(canvasRef.current);
-      gameSceneRef.current.onStateChange = (newState: any) => {
-        setGameState(prev => ({ ...prev, ...newState }));
-      };
+      const scene = new GameScene(canvasRef.current, gameStore);
+      gameSceneRef.current = scene;
+      inputRef.current = new InputManager(
+        (input) => scene.setInput(input),
+        (action) => scene.triggerAction(action)
+      );
+      setSceneReady(true);
     }
 
     return () => {
+      inputRef.current?.dispose();
+      inputRef.current = null;
       if (gameSceneRef.current) {
         gameSceneRef.current.dispose();
+        gameSceneRef.current = null;
       }
     };
   }, []);
 
+  const [initialRoomCode, setInitialRoomCode] = useState(
+    () => new URLSearchParams(globalThis.location.search).get('room') ?? ''
+  );
+
+  // Keep ?room= in the address bar so the current URL can be shared
   useEffect(() => {
-    if (gameSceneRef.current) {
-      gameSceneRef.current.setInput(input);
-    }
-  }, [input]);
+    if (!roomId) return;
+    const url = new URL(globalThis.location.href);
+    url.searchParams.set('room', roomId);
+    globalThis.history.replaceState(null, '', url.toString());
+  }, [roomId]);
 
-  const handleJoinGame = () => {
+  const handleJoinGame = (target: JoinTarget, spectator: boolean) => {
     if (gameState.nickname.trim() && gameSceneRef.current) {
-      gameSceneRef.current.joinGame(gameState.nickname.trim());
+      gameSceneRef.current.joinGame(gameState.nickname.trim(), target, spectator);
       setGameState(prev => ({ ...prev, showNicknameInput: false }));
     }
   };
 
-  const transformByRole = (role: string, x: number, y: number): [number, number] => {
-    console.log('TRANSFORM INPUT:', { role, x, y });
-    // Rey and Rey1 work correctly with [x, -y]
-    if (role === 'rey' || role === 'rey1') {
-      const result: [number, number] = [x, -y];
-      console.log('TRANSFORM OUTPUT (rey/rey1):', result);
-      return result;
-    }
-    // Rey2 and Mato face opposite direction, need both axes inverted
-    if (role === 'rey2' || role === 'mato') {
-      const result: [number, number] = [-x, y];
-      console.log('TRANSFORM OUTPUT (rey2/mato):', result);
-      return result;
-    }
-    // Default
-    return [x, -y];
-  };  const applyMoveFromSources = () => {
-    const j = joystickVecRef.current;
-    const k = keyboardVecRef.current;
-    const jMag = Math.hypot(j[0], j[1]);
-    const kMag = Math.hypot(k[0], k[1]);
-
-    // Decide precedence: if joystick active (>0.05), prefer it; else keyboard
-    if (jMag > 0.05) {
-      const [fx, fy] = transformByRole(currentRoleRef.current, j[0], j[1]);
-      setInput(prev => ({ ...prev, move: [fx, fy] }));
-      lastSourceRef.current = 'joystick';
-    } else if (kMag > 0.05) {
-      const [fx, fy] = transformByRole(currentRoleRef.current, k[0], k[1]);
-      setInput(prev => ({ ...prev, move: [fx, fy] }));
-      lastSourceRef.current = 'keyboard';
-    } else {
-      setInput(prev => ({ ...prev, move: [0, 0] }));
-      lastSourceRef.current = null;
-    }
+  // Bots play behind the start screen until the player picks something
+  useEffect(() => {
+    if (gameState.showNicknameInput && sceneReady) void gameSceneRef.current?.startAttract();
+  }, [gameState.showNicknameInput, sceneReady]);
+
+  // Practice works without a nickname; the bots don't mind
+  const handleStartPractice = (difficulty: BotDifficulty) => {
+    if (!gameSceneRef.current) return;
+    void gameSceneRef.current.startPractice(gameState.nickname.trim() || 'You', difficulty);
+    setGameState(prev => ({ ...prev, showNicknameInput: false }));
   };
 
-  const handleJoystickMove = (x: number, y: number) => {
-    console.log('JOYSTICK RAW:', { x, y, role: currentRoleRef.current });
-    joystickVecRef.current = [x, y];
-    applyMoveFromSources();
+  const handleStartTutorial = () => {
+    if (!gameSceneRef.current) return;
+    void gameSceneRef.current.startTutorial(gameState.nickname.trim() || 'You');
+    setGameState(prev => ({ ...prev, showNicknameInput: false }));
   };
 
-  const handleJump = () => {
-    setInput(prev => ({ ...prev, jump: true }));
-    setTimeout(() => {
-      setInput(prev => ({ ...prev, jump: false }));
-    }, 100);
+  const handleFinishTutorial = () => {
+    gameSceneRef.current?.advanceTutorial();
+    handleReturnToLobby();
   };
 
-  const handleKick = () => {
-    setInput(prev => ({ ...prev, action: 'kick' }));
-    setTimeout(() => {
-      setInput(prev => ({ ...prev, action: null }));
-    }, 100);
-  };
+  const listRooms = useCallback(() => {
+    return gameSceneRef.current ? gameSceneRef.current.listRooms() : Promise.resolve([]);
+  }, []);
 
-  const handleHead = () => {
-    setInput(prev => ({ ...prev, action: 'head' }));
-    setTimeout(() => {
-      setInput(prev => ({ ...prev, action: null }));
-    }, 100);
+  const handleRematch = () => {
+    gameSceneRef.current?.requestRematch();
   };
 
-  // Serve removed: ball auto-spawns from Rey quadrant with momentum
+  const handleReturnToLobby = () => {
+    void gameSceneRef.current?.leaveGame();
+    const url = new URL(globalThis.location.href);
+    url.searchParams.delete('room');
+    globalThis.history.replaceState(null, '', url.toString());
+    setInitialRoomCode('');
+    setGameState(prev => ({ ...prev, showNicknameInput: true }));
+  };
 
-  // Keyboard: WASD and Arrow keys
-  useEffect(() => {
-    if (gameState.showNicknameInput) {
-      // Don't bind gameplay keys while entering nickname
-      return;
-    }
-    const down = new Set<string>();
-    const handlerDown = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if ([ 'w','a','s','d','arrowup','arrowleft','arrowdown','arrowright' ].includes(key)) {
-        down.add(key);
-        e.preventDefault();
-        const x = (down.has('a') || down.has('arrowleft') ? -1 : 0) + (down.has('d') || down.has('arrowright') ? 1 : 0);
-        const y = (down.has('w') || down.has('arrowup') ? 1 : 0) + (down.has('s') || down.has('arrowdown') ? -1 : 0);
-        let nx = x; let ny = y;
-        const mag = Math.hypot(nx, ny);
-        if (mag > 0) { nx /= mag; ny /= mag; }
-        keyboardVecRef.current = [nx, ny];
-        // Only override joystick if joystick is idle
-        if (lastSourceRef.current !== 'joystick') {
-          applyMoveFromSources();
-        }
-      }
-      // Space for jump
-      if (e.code === 'Space') {
-        handleJump();
-      }
-    };
-    const handlerUp = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if ([ 'w','a','s','d','arrowup','arrowleft','arrowdown','arrowright' ].includes(key)) {
-        down.delete(key);
-        const x = (down.has('a') || down.has('arrowleft') ? -1 : 0) + (down.has('d') || down.has('arrowright') ? 1 : 0);
-        const y = (down.has('w') || down.has('arrowup') ? 1 : 0) + (down.has('s') || down.has('arrowdown') ? -1 : 0);
-        let nx = x; let ny = y;
-        const mag = Math.hypot(nx, ny);
-        if (mag > 0) { nx /= mag; ny /= mag; } else { nx = 0; ny = 0; }
-        keyboardVecRef.current = [nx, ny];
-        if (lastSourceRef.current !== 'joystick') {
-          applyMoveFromSources();
-        }
-      }
-    };
-    globalThis.addEventListener('keydown', handlerDown as any, { passive: false } as any);
-    globalThis.addEventListener('keyup', handlerUp as any, { passive: false } as any);
-    return () => {
-      globalThis.removeEventListener('keydown', handlerDown as any);
-      globalThis.removeEventListener('keyup', handlerUp as any);
-    };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameState.currentRole, gameState.showNicknameInput]);
+  const handleRetryConnection = () => {
+    gameSceneRef.current?.retryConnection();
+  };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const handleWatchReplay = async (file: File) => {
+    const replay = parseReplayFile(await file.text());
+    if (!gameSceneRef.current) return;
+    await gameSceneRef.current.startReplay(replay);
+    setGameState(prev => ({ ...prev, showNicknameInput: false }));
   };
 
-  const getRoleDisplayName = (role: string) => {
-    switch (role) {
-      case 'rey': return 'REY 👑';
-      case 'rey1': return 'REY 1';
-      case 'rey2': return 'REY 2';
-      case 'mato': return 'MATO';
-      case 'queue': return 'WAITING...';
-      default: return role.toUpperCase();
+  const handleSpectatorView = useCallback((view: SpectatorView) => {
+    gameSceneRef.current?.setSpectatorView(view);
+  }, []);
+
+  const handleCycleSpectatorTarget = useCallback((direction: 1 | -1) => {
+    gameSceneRef.current?.cycleSpectatorTarget(direction);
+  }, []);
+
+  const handleDownloadReplay = () => {
+    if (!gameSceneRef.current?.downloadReplay()) {
+      pushError(gameStore, 'Nothing recorded yet');
     }
   };
 
+  // On-screen controls feed the same InputManager as the keyboard and gamepad
+  const handleJoystickMove = (x: number, y: number) => {
+    inputRef.current?.setJoystick(x, y);
+  };
+
+  const handleAction = (action: ButtonAction) => inputRef.current?.press(action);
+
+  // Serve removed: ball auto-spawns from Rey quadrant with momentum
+
+  // Gameplay input is ignored while the lobby is up
+  useEffect(() => {
+    inputRef.current?.setEnabled(!gameState.showNicknameInput);
+  }, [gameState.showNicknameInput, sceneReady]);
+
+  useEffect(() => {
+    if (gameState.showNicknameInput) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') gameSceneRef.current?.skipInstantReplay();
+    };
+    globalThis.addEventListener('keydown', handleKey);
+    return () => globalThis.removeEventListener('keydown', handleKey);
+  }, [gameState.showNicknameInput]);
+
   return (
     <div className="app">
       <canvas ref={canvasRef} className="game-canvas" />
       
-      {/* Nickname Input Modal */}
-      {gameState.showNicknameInput && (
-        <div className="modal-overlay">
-          <div className="modal">
-            <h2>Rey Mato</h2>
-            <p>Enter your nickname to join the game:</p>
-            <input
-              type="text"
-              value={gameState.nickname}
-              onChange={(e) => setGameState(prev => ({ ...prev, nickname: e.target.value }))}
-              placeholder="Your nickname"
-              maxLength={15}
-              onKeyDown={(e) => e.key === 'Enter' && handleJoinGame()}
-            />
-            <button onClick={handleJoinGame} disabled={!gameState.nickname.trim()}>
-              Join Game
-            </button>
-          </div>
-        </div>
+      {/* Lobby: nickname, room browser and join-by-code */}
+      {gameState.showNicknameInput && sceneReady && (
+        <Lobby
+          nickname={gameState.nickname}
+          initialRoomCode={initialRoomCode}
+          onNicknameChange={(nickname) => setGameState(prev => ({ ...prev, nickname }))}
+          onJoin={handleJoinGame}
+          listRooms={listRooms}
+          onWatchReplay={handleWatchReplay}
+          onPractice={handleStartPractice}
+          onTutorial={handleStartTutorial}
+        />
       )}
 
+      {/* Connection progress / failure overlay */}
+      {!gameState.showNicknameInput && <ConnectionOverlay onRetry={handleRetryConnection} onReturnToLobby={handleReturnToLobby} />}
+
       {/* Game HUD */}
       {!gameState.showNicknameInput && (
         <>
-          <div className="hud">
-            <div className="hud-top">
-              <div className="role-display">
-                {getRoleDisplayName(gameState.currentRole)}
-              </div>
-              <div className="time-display">
-                Match: {formatTime(gameState.matchTime)}
-              </div>
-            </div>
-            
-            {gameState.currentRole === 'rey' && (
-              <div className="rey-time">
-                Rey Time: {formatTime(gameState.timeAsRey)}
-              </div>
-            )}
-
-            {/* Serve indicator removed; serves are now automatic */}
+          <Hud onDownloadReplay={handleDownloadReplay} />
+          <PreMatchScreen />
+          <ErrorToasts />
+          <InstantReplayBanner onSkip={() => gameSceneRef.current?.skipInstantReplay()} />
+          <TutorialPanel
+            onNext={() => gameSceneRef.current?.advanceTutorial()}
+            onFinish={handleFinishTutorial}
+            onExit={handleReturnToLobby}
+          />
+
+          {replaying && (
+            <ReplayControls
+              onPlayPause={(playing) => gameSceneRef.current?.setReplayPlaying(playing)}
+              onSeek={(seconds) => gameSceneRef.current?.seekReplay(seconds)}
+              onSpeedChange={(speed) => gameSceneRef.current?.setReplaySpeed(speed)}
+              onExit={handleReturnToLobby}
+            />
+          )}
 
-            <div className="connection-status">
-              {gameState.connected ? '🟢 Connected' : '🔴 Disconnected'}
-            </div>
-          </div>
+          <SpectatorBar onViewChange={handleSpectatorView} onCycleTarget={handleCycleSpectatorTarget} />
 
           {/* Mobile Controls */}
-          <div className="controls">
-            <div className="left-controls">
-              <RcJoystickWrapper onMove={handleJoystickMove} />
-            </div>
-            
-            <div className="right-controls">
-              <button className="action-button jump-button" onMouseDown={handleJump} onTouchStart={handleJump}>
-                JUMP
-              </button>
-              
-              {/* Serve button removed */}
-              
-              <div className="action-row">
-                <button className="action-button kick-button" onMouseDown={handleKick} onTouchStart={handleKick}>
-                  KICK
-                </button>
-                <button className="action-button head-button" onMouseDown={handleHead} onTouchStart={handleHead}>
-                  HEAD
-                </button>
-              </div>
-            </div>
-          </div>
-
-          {/* Leaderboard Modal */}
-          {gameState.showLeaderboard && (
-            <div className="modal-overlay">
-              <div className="modal leaderboard-modal">
-                <h2>🏆 Final Leaderboard</h2>
-                <div className="leaderboard">
-                  {gameState.leaderboard.map((entry, index) => (
-                    <div key={`${entry.nickname}-${index}`} className={`leaderboard-entry ${index === 0 ? 'winner' : ''}`}>
-                      <span className="rank">#{index + 1}</span>
-                      <span className="name">{entry.nickname}</span>
-                      <span className="time">{formatTime(entry.timeAsRey)}</span>
-                    </div>
-                  ))}
-                </div>
-                <button onClick={() => setGameState(prev => ({ ...prev, showLeaderboard: false }))}>
-                  Close
-                </button>
+          {!replaying && !spectating && (
+            <div className="controls">
+              <div className="left-controls">
+                <RcJoystickWrapper onMove={handleJoystickMove} />
               </div>
+            
+              <ActionButtons onPress={handleAction} />
             </div>
           )}
+
+          {/* Post-match results */}
+          {!replaying && (
+            <MatchEndScreen
+              onRematch={handleRematch}
+              onReturnToLobby={handleReturnToLobby}
+              onDownloadReplay={handleDownloadReplay}
+            />
+          )}
         </>
       )}
     </div>
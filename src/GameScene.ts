@@ -1,86 +1,147 @@
 import * as THREE from 'three';
 import * as Colyseus from 'colyseus.js';
-
-interface PlayerState {
-  id: string;
-  nickname: string;
-  role: string;
-  // persistent player color provided by server (e.g. "#RRGGBB" or "hsl(h,s%,l%)")
-  color: string;
-  x: number;
-  y: number;
-  z: number;
-  rotY: number;
-  active: boolean;
-  timeAsRey: number;
-  jumping: boolean;
-  vx: number;
-  vz: number;
-}
-
-interface BallState {
-  x: number;
-  y: number;
-  z: number;
-  vx: number;
-  vy: number;
-  vz: number;
-  lastTouchedBy: string;
-  lastBounceOnRole: string;
-  lastBounceTime: number;
-  bounceCount: number;
-}
-
-interface GameStateSchema {
-  players: Map<string, PlayerState>;
-  ball: BallState;
-  currentServer: string;
-  queue: string[];
-  elapsed: number;
-  matchDuration: number;
-  matchStarted: boolean;
-  matchEnded: boolean;
-  waitingForServe: boolean;
-}
-
-interface InputState {
-  move: [number, number];
-  jump: boolean;
-  action: 'kick' | 'head' | 'serve' | null;
-}
+import type { GameRoom } from './net/GameRoom.ts';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { GameStateSchema, InputState } from './types.ts';
+import SnapshotBuffer from './net/SnapshotBuffer.ts';
+import LocalPlayerPredictor from './net/LocalPrediction.ts';
+import ConnectionManager, { type JoinTarget, type RoomListing } from './net/ConnectionManager.ts';
+import { COURT_SIZE, PLAYER_SPEED } from './game/constants.ts';
+import { predictLanding, quadrantAt, sampleArc } from './game/trajectory.ts';
+import { settingsStore } from './store/settingsStore.ts';
+import RulesTracker, { describeRuleEvent, roleLabel, type RuleEvent } from './game/RulesTracker.ts';
+import { gameStore, pushError, pushFeed, resetGameStore, type GameStore, type PlayerSummary } from './store/gameStore.ts';
+import { shallowEqual } from './store/Store.ts';
+import ReplayRecorder from './replay/ReplayRecorder.ts';
+import ReplayPlayer from './replay/ReplayPlayer.ts';
+import RallyBuffer from './replay/RallyBuffer.ts';
+import { decodeFrame, downloadReplayFile, type ReplayFile } from './replay/replayFormat.ts';
+import SpectatorCamera, { type SpectatorView } from './game/SpectatorCamera.ts';
+import CameraRigController from './game/CameraRigController.ts';
+import type { CameraRigContext } from './game/cameraRigs.ts';
+import { screenToWorldMove } from './game/inputSpace.ts';
+import CharacterModel, { loadCharacterModel } from './game/CharacterModel.ts';
+import type CharacterRig from './game/CharacterRig.ts';
+import Locomotion, { type LocomotionInput } from './game/Locomotion.ts';
+import InputSender, { quantizeMove } from './net/InputSender.ts';
+import NetworkStats from './net/NetworkStats.ts';
+import LocalRoom, { type LocalRoomOptions } from './offline/LocalRoom.ts';
+import TutorialDirector from './tutorial/TutorialDirector.ts';
+import { TUTORIAL_STEPS } from './tutorial/tutorialSteps.ts';
+import BotController, { type BotDifficulty } from './offline/BotController.ts';
+import {
+  COURT_ROLES,
+  ProtocolStats,
+  dispatchGameEvent,
+  parseGameEvent,
+  parsePlayerAnimation,
+  validateOutbound,
+  type ActionMessage,
+  type CourtRole,
+  type DiscreteAction,
+  type GameEventHandlers,
+  type JoinOptions,
+  type LeaderboardEntry,
+  type OutboundMessages
+} from './net/protocol.ts';
+
+// Close code Colyseus uses for an intentional leave; anything else is a dropped connection
+const CONSENTED_CLOSE_CODE = 4000;
 
 export default class GameScene {
   private readonly scene: THREE.Scene;
   private readonly camera: THREE.PerspectiveCamera;
   private readonly renderer: THREE.WebGLRenderer;
-  private client!: Colyseus.Client;
-  private room: Colyseus.Room<GameStateSchema> | null = null;
+  private readonly connection = new ConnectionManager();
+  private room: GameRoom | null = null;
   
   // Game objects
   private readonly playerMeshes: Map<string, THREE.Group> = new Map();
+  // among.fbx once it has loaded; until then, or if it fails, players use the built-in mesh
+  private characterModel: CharacterModel | null = null;
+  private readonly characterRigs = new Map<string, CharacterRig>();
+  private readonly locomotion = new Map<string, Locomotion>();
   private ballMesh: THREE.Mesh | null = null;
   private courtMesh: THREE.Group | null = null;
   private quadrantOverlays: Record<string, THREE.Mesh> = {};
   private ballShadowMesh: THREE.Mesh | null = null;
+  private trajectoryLine: THREE.Line | null = null;
+  private landingMarker: THREE.Mesh | null = null;
   
   // Player state
   private myPlayerId: string = '';
-  private currentInput: InputState = { move: [0, 0], jump: false, action: null };
-  private lastInputSent = 0;
+  private nickname = '';
+  private joinTarget: JoinTarget = { mode: 'quick' };
+  private spectating = false;
+  private spectatorCamera: SpectatorCamera | null = null;
+  private reconnectionToken = '';
+  private disposed = false;
+  private animationFrameId = 0;
+  private inputInterval: ReturnType<typeof setInterval> | undefined;
+  private currentInput: InputState = { move: [0, 0] };
+  // Presses waiting to go out; each is sent exactly once
+  private pendingActions: ActionMessage[] = [];
+  private nextActionSeq = 1;
+  private static readonly ACTION_TTL_MS = 500;
+  // currentInput.move mapped to world space through the camera, refreshed every frame
+  private worldMove: [number, number] = [0, 0];
+  // Plays our own slot in attract mode
+  private autoplay: BotController | null = null;
+  private localMatchRequest = 0;
+  // Bumped whenever we join or leave, so a join or resume that finishes late can tell it's stale
+  private roomRequest = 0;
+  private tutorial: TutorialDirector | null = null;
+  // Label over whatever the current tutorial step points at
+  private tutorialMarker: { sprite: THREE.Sprite; step: number } | null = null;
+  private readonly inputSender = new InputSender();
+  private readonly networkStats = new NetworkStats();
+  private detachNetworkStats: (() => void) | null = null;
+  private lastNetworkSample = 0;
   private playerAnimations = new Map<string, { type: string, startTime: number }>();
+  private readonly protocolStats = new ProtocolStats();
+  private playerSummaries = new Map<string, PlayerSummary>();
+  private rotationTimes: number[] = [];
+
+  // Gold ring + light beam on the match winner until the next match starts
+  private winnerHighlight: THREE.Group | null = null;
+  private lastMatchStarted = false;
+
+  // Rule feedback: touches, bounces and rotation reasons as feed entries and court callouts
+  private readonly rules = new RulesTracker();
+  private callouts: Array<{ sprite: THREE.Sprite; startTime: number }> = [];
+
+  // Remote entities are rendered slightly in the past and interpolated between patches
+  private readonly snapshots = new SnapshotBuffer(GameScene.readInterpolationDelay());
+  // Our own player is predicted locally and reconciled against the server
+  private readonly predictor = new LocalPlayerPredictor();
+  private lastFrameTime = performance.now();
+  // Last state applied to the scene, whether it came from the room or a replay
+  private latestState: GameStateSchema | null = null;
+
+  // Replay: the current room is always recorded; a loaded file replaces the room entirely
+  private recorder: ReplayRecorder | null = null;
+  private replay: ReplayPlayer | null = null;
+  private replayCamera: OrbitControls | null = null;
+  private lastReplayPublish = 0;
+
+  // Slow-motion replay of the rally that just ended, shown after each rotation
+  private readonly rallyBuffer = new RallyBuffer();
+  private instantReplay: { player: ReplayPlayer; snapshots: SnapshotBuffer; lookAt: THREE.Vector3 } | null = null;
+  private static readonly INSTANT_REPLAY_CLIP_MS = 4000;
+  private static readonly INSTANT_REPLAY_SPEED = 0.4;
   
   // Court dimensions (used for camera placement and court creation)
-  private readonly courtSize = 16;
+  private readonly courtSize = COURT_SIZE;
   private readonly courtHalfSize = this.courtSize / 2;
 
-  // Camera control - static behind-the-court view (not following the player)
-  private readonly baseCameraDistance = 12; // Base distance used for full-court framing
-  private readonly cameraHeight = 9;        // Slightly lower for a tighter view
-  private readonly cameraFollowLerp = 0.06; // Subtle follow smoothing
+  // Camera rig for the player's own view; spectators and replays drive the camera themselves
+  private readonly cameraRig: CameraRigController;
   
-  public onStateChange: ((state: any) => void) | null = null;
+  // HUD-facing state lives in the store; React subscribes to the slices it renders
+  public readonly store: GameStore;
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, store: GameStore = gameStore) {
+    this.store = store;
     // Initialize Three.js
     this.scene = new THREE.Scene();
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
@@ -95,10 +156,82 @@ export default class GameScene {
     this.renderer.shadowMap.enabled = false; // Disable shadows to prevent trails
     this.renderer.outputColorSpace = THREE.SRGBColorSpace;
     
+    this.cameraRig = new CameraRigController(this.camera, settingsStore.getState().camera.rig);
+
     this.setupScene();
     this.setupNetworking();
     this.setupEventListeners();
     this.startRenderLoop();
+    void this.loadCharacterModel();
+  }
+
+  private async loadCharacterModel() {
+    try {
+      this.characterModel = await loadCharacterModel();
+    } catch (error) {
+      console.warn('⚠️ Character model failed to load, keeping the built-in mesh:', error);
+      return;
+    }
+    if (this.disposed) return;
+    console.log('🧍 Character model loaded');
+
+    // Players who joined while it was loading switch over now
+    for (const [playerId, mesh] of this.playerMeshes) {
+      if (this.characterRigs.has(playerId)) continue;
+      const builtIn = mesh.getObjectByName('character');
+      if (builtIn) {
+        mesh.remove(builtIn);
+        this.disposeObject(builtIn);
+      }
+      this.playerAnimations.delete(playerId);
+      this.attachCharacter(playerId, mesh, this.parseColorToHex(this.latestState?.players.get(playerId)?.color || '#808080'));
+    }
+  }
+
+  private attachCharacter(playerId: string, playerGroup: THREE.Group, colorHex: number) {
+    if (this.characterModel) {
+      const rig = this.characterModel.createRig(colorHex);
+      this.characterRigs.set(playerId, rig);
+      playerGroup.add(rig.object);
+    } else {
+      playerGroup.add(this.createAmongUsCharacter(colorHex));
+    }
+  }
+
+  private disposeCharacter(playerId: string) {
+    this.characterRigs.get(playerId)?.dispose();
+    this.characterRigs.delete(playerId);
+    this.locomotion.delete(playerId);
+  }
+
+  // Idle, walk, run, jump and land from the player's velocity, with squash-and-stretch
+  private animateLocomotion(playerId: string, mesh: THREE.Group, dt: number, input: LocomotionInput) {
+    let locomotion = this.locomotion.get(playerId);
+    if (!locomotion) {
+      locomotion = new Locomotion();
+      this.locomotion.set(playerId, locomotion);
+    }
+    const state = locomotion.update(dt, input);
+
+    const rig = this.characterRigs.get(playerId);
+    if (rig) {
+      rig.update(dt, state, locomotion.groundSpeed);
+      rig.setSquash(locomotion.scaleXZ, locomotion.scaleY);
+    } else {
+      // The built-in mesh has no walk cycle, but it still squashes on landing
+      mesh.getObjectByName('character')?.scale.set(locomotion.scaleXZ, locomotion.scaleY, locomotion.scaleXZ);
+    }
+  }
+
+  // Allow tuning the interpolation delay in the field, e.g. ?interpDelay=150
+  private static readInterpolationDelay(): number {
+    const param = new URLSearchParams(globalThis.location.search).get('interpDelay');
+    const ms = param ? Number(param) : NaN;
+    return Number.isFinite(ms) && ms >= 0 ? ms : 100;
+  }
+
+  public setInterpolationDelay(ms: number) {
+    this.snapshots.delayMs = Math.max(0, ms);
   }
 
   private setupScene() {
@@ -120,10 +253,10 @@ export default class GameScene {
     
     // Create ball
     this.createBall();
+    this.createTrajectoryIndicator();
 
-    // Set initial camera position (default behind top side looking toward center)
-  this.camera.position.set(0, this.cameraHeight, this.courtHalfSize + this.baseCameraDistance);
-    this.camera.lookAt(0, 0, 0);
+    // Start at the rig's default framing (behind the top side looking toward center)
+    this.cameraRig.snap(this.cameraRigContext());
   }
 
   private createCourt() {
@@ -398,6 +531,64 @@ export default class GameScene {
   this.scene.add(this.ballShadowMesh);
   }
 
+  private static readonly TRAJECTORY_SEGMENTS = 32;
+
+  // Projected arc of the ball plus a marker where it will land
+  private createTrajectoryIndicator() {
+    const positions = new Float32Array((GameScene.TRAJECTORY_SEGMENTS + 1) * 3);
+    const lineGeometry = new THREE.BufferGeometry();
+    lineGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const lineMaterial = new THREE.LineDashedMaterial({
+      color: 0xFFFFFF,
+      dashSize: 0.4,
+      gapSize: 0.25,
+      transparent: true,
+      opacity: 0.7
+    });
+    this.trajectoryLine = new THREE.Line(lineGeometry, lineMaterial);
+    this.trajectoryLine.frustumCulled = false;
+    this.trajectoryLine.visible = false;
+    this.scene.add(this.trajectoryLine);
+
+    const markerMaterial = new THREE.MeshBasicMaterial({
+      color: 0xFFFFFF,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    });
+    this.landingMarker = new THREE.Mesh(new THREE.RingGeometry(0.6, 0.9, 32), markerMaterial);
+    this.landingMarker.rotation.x = -Math.PI / 2;
+    this.landingMarker.visible = false;
+    this.scene.add(this.landingMarker);
+  }
+
+  private updateTrajectory(ball: { x: number; y: number; z: number; vx: number; vy: number; vz: number }) {
+    const line = this.trajectoryLine;
+    const marker = this.landingMarker;
+    if (!line || !marker) return;
+
+    const landing = settingsStore.getState().display.showTrajectory ? predictLanding(ball) : null;
+    line.visible = marker.visible = landing !== null;
+    if (!landing) return;
+
+    const points = sampleArc(ball, landing.time, GameScene.TRAJECTORY_SEGMENTS);
+    const attribute = line.geometry.getAttribute('position') as THREE.BufferAttribute;
+    points.forEach(([x, y, z], i) => attribute.setXYZ(i, x, y, z));
+    attribute.needsUpdate = true;
+    line.geometry.computeBoundingSphere();
+    line.computeLineDistances();
+
+    // Tint with the quadrant the ball will land in; red when it's going out
+    const quadrant = quadrantAt(landing.x, landing.z);
+    const color = quadrant ? this.getRoleColor(quadrant) : 0xFF0000;
+    marker.position.set(landing.x, 0.02, landing.z);
+    (marker.material as THREE.MeshBasicMaterial).color.setHex(color);
+    (line.material as THREE.LineDashedMaterial).color.setHex(color);
+    // Shrink the marker as the ball gets close to landing
+    marker.scale.setScalar(0.7 + Math.min(1, landing.time) * 0.6);
+  }
+
   private buildPlayerLabelTexture(role: string, nickname: string): THREE.CanvasTexture {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d')!;
@@ -481,14 +672,12 @@ export default class GameScene {
   }
 
 
-  private createPlayerMesh(_playerId: string, nickname: string, role: string, colorStr: string): THREE.Group {
+  private createPlayerMesh(playerId: string, nickname: string, role: string, colorStr: string): THREE.Group {
     const playerGroup = new THREE.Group();
     playerGroup.userData.role = role;
 
-    // Create custom Among Us-style character
-    const baseHex = this.parseColorToHex(colorStr);
-    const amongUsCharacter = this.createAmongUsCharacter(baseHex);
-    playerGroup.add(amongUsCharacter);
+    // Among Us-style character: the FBX model if it's ready, the built-in mesh otherwise
+    this.attachCharacter(playerId, playerGroup, this.parseColorToHex(colorStr));
 
     // Name label with role emoji
     const labelTexture = this.buildPlayerLabelTexture(role, nickname);
@@ -513,59 +702,31 @@ export default class GameScene {
   }
 
   private setupNetworking() {
-    // Simple setup: localhost for development, Render for production
-    let wsUrl: string;
-    
-    console.log('Environment check:');
-    console.log('hostname:', globalThis.location.hostname);
-    console.log('protocol:', globalThis.location.protocol);
-    
-    // If running on localhost, connect to local server
-    if (globalThis.location.hostname === 'localhost') {
-      wsUrl = 'ws://localhost:2567';  // Local server port
-      console.log('✅ Using local development server');
-    } else {
-      // Production environment - use Render server
-      wsUrl = 'wss://reymato-server.onrender.com';
-      console.log('✅ Using production Render server');
-    }
-    
-    console.log('Final WebSocket URL:', wsUrl);
-    console.log('Connecting to WebSocket:', wsUrl);
-    
-    // Test the server health first if it's the Render server
-    if (wsUrl.includes('reymato-server.onrender.com')) {
-      console.log('🏥 Testing server health first...');
-      fetch('https://reymato-server.onrender.com/health')
-        .then(response => response.json())
-        .then(data => {
-          console.log('✅ Server health check passed:', data);
-        })
-        .catch(error => {
-          console.error('❌ Server health check failed:', error);
-        });
-    }
-    
-    this.client = new Colyseus.Client(wsUrl);
+    // The connection manager owns the Colyseus client and reports progress to the UI
+    this.connection.onStatusChange = (info) => {
+      this.store.update('connection', { status: info.status, detail: info.detail });
+    };
   }
 
+  private readonly handleResize = () => {
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+  };
+
   private setupEventListeners() {
     // Window resize
-    window.addEventListener('resize', () => {
-      this.camera.aspect = window.innerWidth / window.innerHeight;
-      this.camera.updateProjectionMatrix();
-      this.renderer.setSize(window.innerWidth, window.innerHeight);
-    });
+    window.addEventListener('resize', this.handleResize);
 
     // Input sending interval - increase to 30Hz for more responsive controls
-    setInterval(() => {
+    this.inputInterval = setInterval(() => {
       this.sendInput();
     }, 1000 / 30); // 30 times per second
   }
 
   private startRenderLoop() {
     const animate = () => {
-      requestAnimationFrame(animate);
+      this.animationFrameId = requestAnimationFrame(animate);
       this.update();
       this.renderer.render(this.scene, this.camera);
     };
@@ -573,90 +734,168 @@ export default class GameScene {
   }
 
   private update() {
-    // Static camera positioning based on my role (behind side), not following player position
-    const myPlayer = this.room?.state.players.get(this.myPlayerId);
+    const now = performance.now();
+    const dt = Math.min(0.1, (now - this.lastFrameTime) / 1000);
+    this.lastFrameTime = now;
 
-    let desiredCameraPos: THREE.Vector3;
-    let lookTarget = new THREE.Vector3(0, 1, 0);
+    if (this.replay) {
+      this.advanceReplay(dt * 1000);
+    } else {
+      // Apply our own input immediately instead of waiting for the server echo
+      // While input isn't sent, predicting movement would only be undone by the server
+      const move = this.autoplay ? this.runAutoplay(this.autoplay, now) : screenToWorldMove(this.currentInput.move, this.camera);
+      this.worldMove = this.inputSuppressed() ? [0, 0] : quantizeMove(move);
+      this.predictor.step({ ...this.currentInput, move: this.worldMove }, dt, now);
+      this.predictor.smooth(dt);
+    }
+    if (this.instantReplay) {
+      this.advanceInstantReplay(dt * 1000);
+    }
 
-    if (myPlayer) {
-      // Slight follow: offset horizontally toward player X but keep full court in frame.
-      // Clamp horizontal shift so edges remain visible.
-      const maxHorizontalShift = 3; // limit follow amount
-      const shiftX = THREE.MathUtils.clamp(myPlayer.x * 0.4, -maxHorizontalShift, maxHorizontalShift);
+    this.updateCamera();
 
-      // Determine which side to place the camera (behind player's half) but bias Z slightly toward player
-      const isTopSide = myPlayer.role === 'rey' || myPlayer.role === 'rey1';
-      const baseZ = (isTopSide ? (this.courtHalfSize + this.baseCameraDistance) : -(this.courtHalfSize + this.baseCameraDistance));
-      const shiftZ = THREE.MathUtils.clamp(myPlayer.z * 0.25, -2, 2); // subtle depth shift
+    // Move players and ball to their interpolated positions
+    this.applyInterpolatedFrame(dt);
 
-      desiredCameraPos = new THREE.Vector3(shiftX, this.cameraHeight, baseZ + shiftZ);
+    // Update player animations
+    this.updatePlayerAnimations();
 
-      // Look target slightly weighted toward player horizontal position but keep center anchor
-      lookTarget = new THREE.Vector3(myPlayer.x * 0.3, 1, 0);
-    } else {
-      // Default static framing
-      desiredCameraPos = new THREE.Vector3(0, this.cameraHeight, this.courtHalfSize + this.baseCameraDistance);
+    if (this.winnerHighlight) {
+      this.winnerHighlight.rotation.y += dt * 1.5;
     }
 
-    this.camera.position.lerp(desiredCameraPos, this.cameraFollowLerp);
-    this.camera.lookAt(lookTarget);
+    this.updateCallouts(now);
+    this.updateTutorialMarker(now);
 
-    // Update player animations
-    this.updatePlayerAnimations();
+    if (now - this.lastNetworkSample >= 1000) {
+      this.lastNetworkSample = now;
+      this.store.update('network', this.networkStats.sample(now));
+    }
+  }
+
+  private updateCamera() {
+    // Replays use a free orbit camera instead of the player-relative rig
+    if (this.replayCamera) {
+      this.replayCamera.update();
+      return;
+    }
+    if (this.instantReplay) {
+      this.updateInstantReplayCamera(this.instantReplay);
+      return;
+    }
+    if (this.spectatorCamera) {
+      this.updateSpectatorCamera(this.spectatorCamera);
+      return;
+    }
+
+    // Player view: whichever rig the player picked in settings
+    const rigId = settingsStore.getState().camera.rig;
+    if (rigId !== this.cameraRig.rigId) this.cameraRig.setRig(rigId);
+    this.cameraRig.update(this.cameraRigContext());
+  }
+
+  // Broadcast-style camera for instant replays: circles the ball slowly, low and close
+  private updateInstantReplayCamera(replay: NonNullable<GameScene['instantReplay']>) {
+    const ball = this.ballMesh?.position ?? new THREE.Vector3(0, 1, 0);
+    const angle = Math.PI / 4 + (replay.player.time / 1000) * 0.6;
+    const radius = 9;
+    const desired = new THREE.Vector3(
+      ball.x + Math.cos(angle) * radius,
+      3.5 + ball.y * 0.5,
+      ball.z + Math.sin(angle) * radius
+    );
+    this.camera.position.lerp(desired, 0.08);
+    replay.lookAt.lerp(ball, 0.15);
+    this.camera.lookAt(replay.lookAt);
+  }
+
+  private cameraRigContext(): CameraRigContext {
+    const me = this.latestState?.players.get(this.myPlayerId);
+    const mesh = this.playerMeshes.get(this.myPlayerId);
+    return {
+      // Follow the rendered (predicted) position rather than the last server state
+      player: me && mesh ? { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z, role: me.role } : null,
+      ball: this.ballMesh?.position ?? new THREE.Vector3(0, 1, 0),
+      portrait: this.camera.aspect < 1
+    };
+  }
+
+  private updateSpectatorCamera(spectatorCamera: SpectatorCamera) {
+    const ball = this.ballMesh?.position ?? new THREE.Vector3(0, 1, 0);
+    const velocity = this.latestState?.ball;
+    const targetId = this.store.getState().spectator.targetId;
+    spectatorCamera.update({
+      ball,
+      ballVelocity: new THREE.Vector3(velocity?.vx ?? 0, velocity?.vy ?? 0, velocity?.vz ?? 0),
+      player: this.playerMeshes.get(targetId)?.position ?? null
+    });
+  }
+
+  private applyInterpolatedFrame(dt: number) {
+    // Replays sample on their own clock, which can pause, scrub and change speed
+    const source = this.instantReplay?.snapshots ?? this.snapshots;
+    const clock = this.instantReplay?.player ?? this.replay;
+    const frame = source.sample(clock ? clock.time + source.delayMs : undefined);
+    if (!frame) return;
 
-    // Update player jumping animations (simple up-down for jumping)
     for (const [playerId, mesh] of this.playerMeshes) {
-      const player = this.room?.state.players.get(playerId);
-      if (player?.jumping) {
-        mesh.position.y = Math.sin(Date.now() * 0.01) * 0.1 + player.y;
-      } else if (player) {
-        mesh.position.y = player.y;
+      const sample = frame.players.get(playerId);
+      if (!sample) continue;
+      // Our own player moves with the stick right away, so its legs should too
+      let velocity = { vx: sample.vx, vz: sample.vz };
+      if (playerId === this.myPlayerId && this.predictor.active && !this.instantReplay) {
+        const predicted = this.predictor.getPosition();
+        mesh.position.set(predicted.x, predicted.y, predicted.z);
+        velocity = { vx: this.worldMove[0] * PLAYER_SPEED, vz: this.worldMove[1] * PLAYER_SPEED };
+      } else {
+        mesh.position.set(sample.x, sample.y, sample.z);
       }
+      mesh.rotation.y = sample.rotY;
+      this.animateLocomotion(playerId, mesh, dt, { ...velocity, y: mesh.position.y, jumping: sample.jumping });
+    }
+
+    if (this.ballMesh) {
+      const ball = frame.ball;
+      this.ballMesh.position.set(ball.x, ball.y, ball.z);
+      if (this.ballShadowMesh) {
+        const h = Math.max(0, ball.y);
+        const scale = Math.max(0.8, 2.2 - h * 0.15);
+        const opacity = Math.max(0.2, 0.8 - h * 0.08);
+        this.ballShadowMesh.position.set(ball.x, 0.01, ball.z);
+        this.ballShadowMesh.scale.set(scale, scale, 1);
+        const mat = this.ballShadowMesh.material as THREE.MeshBasicMaterial;
+        mat.opacity = opacity;
+      }
+      this.updateTrajectory(ball);
     }
   }
 
-  public async joinGame(nickname: string) {
+  public async joinGame(nickname: string, target: JoinTarget = { mode: 'quick' }, spectator = this.spectating) {
+    // Stop the attract or practice match running locally, including one still starting
+    this.localMatchRequest++;
+    if (this.room instanceof LocalRoom) await this.leaveGame();
+    const request = ++this.roomRequest;
+    this.nickname = nickname;
+    this.joinTarget = target;
+    this.setSpectating(spectator);
     try {
-      console.log('Attempting to join game with nickname:', nickname);
-      console.log('Client setup with URL:', this.client ? 'Client exists' : 'No client!');
+      console.log('Attempting to join game with nickname:', nickname, target, spectator ? '(spectator)' : '');
+      console.log('Server endpoint:', this.connection.endpoint);
       
-      this.room = await this.client.joinOrCreate<GameStateSchema>('rey_mato', { nickname });
-      this.myPlayerId = this.room.sessionId;
+      const options: JoinOptions = spectator ? { nickname, spectator } : { nickname };
+      const room = await this.connection.join<GameStateSchema>('rey_mato', target, options);
+      if (this.disposed || request !== this.roomRequest) {
+        void room.leave();
+        return;
+      }
+      this.attachRoom(room);
+      // Joining a created room again (retry, resume fallback) must not create yet another one
+      if (target.mode === 'create') this.joinTarget = { mode: 'join', roomId: room.id };
       
       console.log('✅ Successfully joined game!');
       console.log('- Player ID:', this.myPlayerId);
-      console.log('- Room ID:', this.room.id);
-      console.log('- Initial state:', this.room.state);
-
-      // Handle state changes
-      this.room.onStateChange((state) => {
-        console.log('🔄 State change received:', {
-          players: state.players.size,
-          ballPosition: state.ball ? `(${state.ball.x}, ${state.ball.y}, ${state.ball.z})` : 'No ball',
-          matchStarted: state.matchStarted
-        });
-        this.updateGameObjects(state);
-        this.updateUI(state);
-      });
-
-      // Handle messages
-      this.room.onMessage('event', (message) => {
-        console.log('📨 Game event received:', message);
-        this.handleGameEvent(message);
-      });
-      
-      // Handle player animations
-      this.room.onMessage('playerAnimation', (message: { playerId: string; action: string }) => {
-        console.log('🎭 Animation message:', message);
-        this.animatePlayerKick(message.playerId, message.action);
-      });
-
-      // Handle room events - these are actually available on the room instance after joining
-      console.log('✅ Room setup complete - waiting for state updates');
-      if (this.onStateChange) {
-        this.onStateChange({ connected: true });
-      }
+      console.log('- Room ID:', room.id);
+      console.log('- Initial state:', room.state);
 
     } catch (error) {
       console.error('❌ Failed to join room:', error);
@@ -664,14 +903,389 @@ export default class GameScene {
         message: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : 'No stack trace'
       });
-      if (this.onStateChange) {
-        this.onStateChange({ connected: false, error: error instanceof Error ? error.message : 'Connection failed' });
+      pushError(this.store, error instanceof Error ? error.message : 'Connection failed');
+    }
+  }
+
+  /** Practice against bots in a local simulation; no server needed. */
+  public async startPractice(nickname: string, difficulty: BotDifficulty = 'normal') {
+    if (!await this.openLocalRoom(nickname, { difficulty })) return;
+    this.store.update('practice', { active: true });
+    console.log('🤖 Practice match started:', difficulty);
+  }
+
+  /** Bots play a practice match behind the start screen, our own slot included. */
+  public async startAttract() {
+    if (!await this.openLocalRoom('You', {})) return;
+    this.autoplay = new BotController(this.myPlayerId);
+    this.store.update('practice', { active: true });
+    console.log('🤖 Attract mode started');
+  }
+
+  /** Step-by-step rules tutorial in a scripted sandbox. */
+  public async startTutorial(nickname: string) {
+    const room = await this.openLocalRoom(nickname, { sandbox: true });
+    if (!room) return;
+    this.tutorial = new TutorialDirector(room, this.store);
+    this.tutorial.start();
+    console.log('📘 Tutorial started');
+  }
+
+  public advanceTutorial() {
+    this.tutorial?.next();
+  }
+
+  // Replace whatever is running with a local room; null when a newer start took over
+  // while the previous room was closing
+  private async openLocalRoom(nickname: string, options: LocalRoomOptions): Promise<LocalRoom | null> {
+    const request = ++this.localMatchRequest;
+    await this.leaveGame();
+    if (this.disposed || request !== this.localMatchRequest) return null;
+
+    this.nickname = nickname;
+    const room = new LocalRoom(nickname, options);
+    this.attachRoom(room);
+    return room;
+  }
+
+  // The bot's move is already in world space; its presses go through the normal path
+  private runAutoplay(bot: BotController, now: number): [number, number] {
+    if (!this.latestState || this.instantReplay) return [0, 0];
+    const decision = bot.update(this.latestState, now);
+    for (const action of decision.actions) this.triggerAction(action);
+    return decision.input.move;
+  }
+
+  private attachRoom(room: GameRoom) {
+    this.room = room;
+    this.detachNetworkStats?.();
+    // Only a real connection has traffic to measure and a room code to share
+    const online = room instanceof Colyseus.Room;
+    this.detachNetworkStats = online ? this.networkStats.attach(room) : null;
+    this.inputSender.reset();
+    this.myPlayerId = room.sessionId;
+    // Keep the token so a dropped socket can resume the same seat and queue position
+    this.reconnectionToken = room.reconnectionToken;
+    this.store.update('connection', { roomId: online ? room.id : '' });
+    // A resumed session keeps appending to the same recording
+    if (this.recorder?.roomId !== room.id) {
+      this.recorder = new ReplayRecorder(room.id, room.sessionId);
+    }
+
+    // Handle state changes
+    room.onStateChange((state) => {
+      console.log('🔄 State change received:', {
+        players: state.players.size,
+        ballPosition: state.ball ? `(${state.ball.x}, ${state.ball.y}, ${state.ball.z})` : 'No ball',
+        matchStarted: state.matchStarted
+      });
+      this.recorder?.recordState(state);
+      this.rallyBuffer.recordState(state);
+      this.updateGameObjects(state);
+      this.updateUI(state);
+    });
+
+    // Handle messages
+    room.onMessage('event', (message: unknown) => {
+      console.log('📨 Game event received:', message);
+      this.recorder?.recordMessage('event', message);
+      this.handleGameEvent(message);
+    });
+    
+    // Handle player animations
+    room.onMessage('playerAnimation', (message: unknown) => {
+      console.log('🎭 Animation message:', message);
+      this.recorder?.recordMessage('playerAnimation', message);
+      this.rallyBuffer.recordAnimation(message);
+      this.handlePlayerAnimation(message);
+    });
+
+    // Anything on a channel we don't know about is protocol drift
+    room.onMessage('*', (type, message) => {
+      this.protocolStats.recordUnknownChannel(typeof type === 'object' ? 'schema' : type, message);
+    });
+
+    room.onLeave((code) => {
+      void this.handleRoomLeave(room, code);
+    });
+
+    // Rebuild meshes right away when resuming into an existing state
+    if (room.state?.players) {
+      this.recorder.recordState(room.state);
+      this.updateGameObjects(room.state);
+      this.updateUI(room.state);
+    }
+
+    console.log('✅ Room setup complete - waiting for state updates');
+  }
+
+  private async handleRoomLeave(room: GameRoom, code: number) {
+    if (this.disposed || room !== this.room) return;
+    this.room = null;
+
+    if (code === CONSENTED_CLOSE_CODE) {
+      console.log('👋 Left room');
+      return;
+    }
+
+    console.warn('⚠️ Connection lost (code', code + '), trying to resume session');
+    this.resetWorld();
+    const request = this.roomRequest;
+    // Left, or joined somewhere else, while we were resuming
+    const stale = () => this.disposed || request !== this.roomRequest;
+    try {
+      const resumed = await this.connection.reconnect<GameStateSchema>(this.reconnectionToken);
+      if (stale()) {
+        void resumed.leave();
+        this.clearStaleStatus();
+        return;
+      }
+      console.log('✅ Session resumed');
+      this.attachRoom(resumed);
+    } catch (error) {
+      if (stale()) {
+        this.clearStaleStatus();
+        return;
       }
+      console.warn('❌ Session resume failed, joining a fresh room:', error);
+      await this.joinGame(this.nickname, this.joinTarget);
+    }
+  }
+
+  // An abandoned resume kept reporting its attempts; don't leave that over a lobby or local match
+  private clearStaleStatus() {
+    if (!this.room || this.room instanceof LocalRoom) this.connection.setStatus('idle');
+  }
+
+  // Drop everything tied to the previous room so the next state rebuilds it from scratch
+  private resetWorld() {
+    this.clearWinnerHighlight();
+    for (const [playerId, mesh] of this.playerMeshes) {
+      this.disposeCharacter(playerId);
+      this.scene.remove(mesh);
+      this.disposeObject(mesh);
+    }
+    this.playerMeshes.clear();
+    this.latestState = null;
+    this.lastMatchStarted = false;
+    this.playerAnimations.clear();
+    this.playerSummaries.clear();
+    this.rotationTimes = [];
+    this.snapshots.clear();
+    this.predictor.reset();
+    this.rules.reset();
+    for (const callout of this.callouts) this.removeCallout(callout.sprite);
+    this.callouts = [];
+    this.rallyBuffer.clear();
+    this.skipInstantReplay();
+  }
+
+  /** Leave the current room or replay on purpose and clear everything tied to it. */
+  public async leaveGame() {
+    const room = this.room;
+    // Clearing the room first makes handleRoomLeave ignore the close
+    this.room = null;
+    this.roomRequest++;
+    this.reconnectionToken = '';
+    this.recorder = null;
+    this.autoplay = null;
+    this.tutorial?.dispose();
+    this.tutorial = null;
+    this.detachNetworkStats?.();
+    this.detachNetworkStats = null;
+    this.closeReplay();
+    this.setSpectating(false);
+    this.resetWorld();
+    this.connection.setStatus('idle');
+    resetGameStore(this.store);
+    if (room) await room.leave();
+  }
+
+  public requestRematch() {
+    this.send('rematch', { type: 'rematch' });
+    this.store.update('leaderboard', { visible: false });
+  }
+
+  public retryConnection() {
+    if (this.room || !this.nickname) return;
+    void this.joinGame(this.nickname, this.joinTarget);
+  }
+
+  public listRooms(): Promise<RoomListing[]> {
+    return this.connection.listRooms('rey_mato');
+  }
+
+  private setSpectating(spectating: boolean) {
+    this.spectating = spectating;
+    if (spectating && !this.spectatorCamera) {
+      this.spectatorCamera = new SpectatorCamera(this.camera, this.renderer.domElement, this.courtHalfSize);
+    } else if (!spectating && this.spectatorCamera) {
+      this.spectatorCamera.dispose();
+      this.spectatorCamera = null;
+    }
+    const view = this.spectatorCamera?.currentView ?? this.store.getState().spectator.view;
+    this.store.update('spectator', { active: spectating, view });
+  }
+
+  public setSpectatorView(view: SpectatorView) {
+    if (!this.spectatorCamera) return;
+    this.spectatorCamera.setView(view);
+    this.store.update('spectator', { view });
+  }
+
+  /** Switch the followed player to the next (1) or previous (-1) one on court. */
+  public cycleSpectatorTarget(direction: 1 | -1) {
+    const ids = this.spectatorTargetIds();
+    if (ids.length === 0) return;
+    const current = ids.indexOf(this.store.getState().spectator.targetId);
+    const next = (current + direction + ids.length) % ids.length;
+    this.store.update('spectator', { targetId: ids[next] });
+  }
+
+  // Players on court in role order, then the queue
+  private spectatorTargetIds(): string[] {
+    const players = Array.from(this.latestState?.players.values() ?? []);
+    const order = (role: string) => {
+      const index = COURT_ROLES.indexOf(role as CourtRole);
+      return index === -1 ? COURT_ROLES.length : index;
+    };
+    return players.sort((a, b) => order(a.role) - order(b.role)).map(p => p.id);
+  }
+
+  /** Save everything recorded in the current room as a replay file. */
+  public downloadReplay(): boolean {
+    if (!this.recorder?.hasData) return false;
+    downloadReplayFile(this.recorder.toFile());
+    return true;
+  }
+
+  /** Play a recorded match back through the normal update path, without a server. */
+  public async startReplay(file: ReplayFile) {
+    await this.leaveGame();
+    this.replay = new ReplayPlayer(file);
+    this.myPlayerId = file.myPlayerId;
+
+    this.replayCamera = new OrbitControls(this.camera, this.renderer.domElement);
+    this.replayCamera.target.set(0, 1, 0);
+    this.replayCamera.enableDamping = true;
+    this.replayCamera.maxPolarAngle = Math.PI / 2 - 0.05;
+
+    this.store.update('replay', { active: true, time: 0, duration: file.duration / 1000, playing: true, speed: 1 });
+    console.log('🎬 Replay started:', file.roomId, `${file.frames.length} frames`);
+  }
+
+  public setReplayPlaying(playing: boolean) {
+    if (!this.replay) return;
+    // Pressing play at the end starts over
+    if (playing && this.replay.time >= this.replay.duration) this.replay.seek(0);
+    this.replay.playing = playing;
+    this.publishReplay();
+  }
+
+  public seekReplay(seconds: number) {
+    if (!this.replay) return;
+    this.replay.seek(seconds * 1000);
+    this.publishReplay();
+  }
+
+  public setReplaySpeed(speed: number) {
+    if (!this.replay) return;
+    this.replay.speed = speed;
+    this.publishReplay();
+  }
+
+  private advanceReplay(dtMs: number) {
+    const replay = this.replay!;
+    const step = replay.advance(dtMs, this.snapshots.delayMs);
+
+    if (step.reset) {
+      // Scrubbing invalidates anything derived from the frames before the jump
+      this.snapshots.clear();
+      this.rules.reset();
+      this.playerAnimations.clear();
+      for (const callout of this.callouts) this.removeCallout(callout.sprite);
+      this.callouts = [];
+      this.store.update('leaderboard', { visible: false });
     }
+
+    for (const frame of step.frames) {
+      const state = decodeFrame(frame, replay.file.players);
+      this.updateGameObjects(state, frame.t);
+      this.updateUI(state);
+    }
+    for (const message of step.messages) {
+      if (message.c === 'event') this.handleGameEvent(message.d);
+      else this.handlePlayerAnimation(message.d);
+    }
+
+    // The scrubber doesn't need every frame
+    const now = performance.now();
+    if (step.reset || now - this.lastReplayPublish > 100) this.publishReplay();
   }
 
-  private updateGameObjects(state: GameStateSchema) {
+  private publishReplay() {
+    if (!this.replay) return;
+    this.lastReplayPublish = performance.now();
+    this.store.update('replay', {
+      time: this.replay.time / 1000,
+      playing: this.replay.playing,
+      speed: this.replay.speed
+    });
+  }
+
+  private startInstantReplay() {
+    const clip = this.rallyBuffer.takeClip(GameScene.INSTANT_REPLAY_CLIP_MS, this.myPlayerId);
+    if (!clip || this.replay || this.latestState?.matchEnded) return;
+    if (!settingsStore.getState().display.instantReplay) return;
+
+    const player = new ReplayPlayer(clip);
+    player.speed = GameScene.INSTANT_REPLAY_SPEED;
+    this.instantReplay = {
+      player,
+      snapshots: new SnapshotBuffer(this.snapshots.delayMs),
+      lookAt: this.ballMesh?.position.clone() ?? new THREE.Vector3(0, 1, 0)
+    };
+    this.store.update('instantReplay', { active: true });
+  }
+
+  /** Cut the instant replay short and go back to the live view. */
+  public skipInstantReplay() {
+    if (!this.instantReplay) return;
+    this.instantReplay = null;
+    this.store.update('instantReplay', { active: false });
+  }
+
+  private advanceInstantReplay(dtMs: number) {
+    const replay = this.instantReplay!;
+    const step = replay.player.advance(dtMs, replay.snapshots.delayMs);
+    for (const frame of step.frames) {
+      replay.snapshots.push(decodeFrame(frame, replay.player.file.players), frame.t);
+    }
+    for (const message of step.messages) {
+      this.handlePlayerAnimation(message.d);
+    }
+    if (!replay.player.playing) this.skipInstantReplay();
+  }
+
+  private closeReplay() {
+    if (!this.replay) return;
+    this.replay = null;
+    this.replayCamera?.dispose();
+    this.replayCamera = null;
+  }
+
+  private updateGameObjects(state: GameStateSchema, time?: number) {
     console.log('🎮 Updating game objects - Players:', state.players.size, 'Ball:', state.ball ? 'exists' : 'missing');
+    this.latestState = state;
+
+    // Positions are applied per frame from the interpolation buffer
+    this.snapshots.push(state, time);
+    const me = state.players.get(this.myPlayerId);
+    if (me && !this.replay) this.predictor.reconcile(me);
+
+    for (const event of this.rules.observe(state)) {
+      this.presentRuleEvent(event);
+    }
     
     // Update players
     for (const [playerId, player] of state.players) {
@@ -679,6 +1293,7 @@ export default class GameScene {
         // Create new player mesh
         console.log('🆕 Creating new player mesh for:', playerId, player.nickname, player.role);
         const playerMesh = this.createPlayerMesh(playerId, player.nickname, player.role, player.color || '#808080');
+        playerMesh.position.set(player.x, player.y, player.z);
         this.playerMeshes.set(playerId, playerMesh);
         this.scene.add(playerMesh);
         
@@ -692,13 +1307,9 @@ export default class GameScene {
       const previousRole: string | undefined = playerMesh.userData.role;
       const playerColorHex = this.parseColorToHex(player.color || '#808080');
       
-      // Direct position update (no lerping to avoid trails)
-      const targetPos = new THREE.Vector3(player.x, player.y, player.z);
-      playerMesh.position.copy(targetPos);
-      
-      playerMesh.rotation.y = player.rotY;
 
       // Ensure body color reflects persistent player color (independent of role)
+      this.characterRigs.get(playerId)?.setColor(playerColorHex);
       const body = playerMesh.getObjectByName('body') as THREE.Mesh | null;
       if (body && body.material instanceof THREE.MeshLambertMaterial) {
         body.material.color.setHex(playerColorHex);
@@ -758,24 +1369,11 @@ export default class GameScene {
     // Remove disconnected players
     for (const [playerId, mesh] of this.playerMeshes) {
       if (!state.players.has(playerId)) {
+        this.disposeCharacter(playerId);
         this.scene.remove(mesh);
         this.playerMeshes.delete(playerId);
       }
     }
-
-    // Update ball
-    if (this.ballMesh) {
-      this.ballMesh.position.set(state.ball.x, state.ball.y, state.ball.z);
-      if (this.ballShadowMesh) {
-        const h = Math.max(0, state.ball.y);
-        const scale = Math.max(0.8, 2.2 - h * 0.15);
-        const opacity = Math.max(0.2, 0.8 - h * 0.08);
-        this.ballShadowMesh.position.set(state.ball.x, 0.01, state.ball.z);
-        this.ballShadowMesh.scale.set(scale, scale, 1);
-        const mat = this.ballShadowMesh.material as THREE.MeshBasicMaterial;
-        mat.opacity = opacity;
-      }
-    }
   }
 
   private generateTeamgeistTexture(size = 1024): THREE.CanvasTexture {
@@ -866,53 +1464,242 @@ export default class GameScene {
 
   private updateUI(state: GameStateSchema) {
     const myPlayer = state.players.get(this.myPlayerId);
-    if (myPlayer && this.onStateChange) {
-      this.onStateChange({
-        currentRole: myPlayer.role,
-        timeAsRey: myPlayer.timeAsRey,
-        matchTime: state.elapsed,
-        connected: true,
-        waitingForServe: state.waitingForServe,
-        currentServer: state.currentServer
-      });
+    if (myPlayer) {
+      this.store.update('player', { id: this.myPlayerId, role: myPlayer.role, timeAsRey: myPlayer.timeAsRey });
+    }
+    this.store.update('players', { list: this.summarizePlayers(state) });
+    this.store.update('match', {
+      elapsed: state.elapsed,
+      duration: state.matchDuration,
+      started: state.matchStarted,
+      ended: state.matchEnded,
+      waitingForServe: state.waitingForServe
+    });
+    this.store.update('queue', { ids: Array.from(state.queue ?? []), currentServer: state.currentServer });
+
+    // A new match starting retires the previous winner's highlight
+    if (state.matchStarted && !this.lastMatchStarted) {
+      this.clearWinnerHighlight();
+    }
+    this.lastMatchStarted = state.matchStarted;
+
+    // Spectators follow someone by default, and move on when that player leaves
+    const { active, targetId } = this.store.getState().spectator;
+    if (active && !state.players.has(targetId)) {
+      this.store.update('spectator', { targetId: this.spectatorTargetIds()[0] ?? '' });
     }
   }
 
-  private handleGameEvent(message: any) {
-    console.log('Game event:', message);
-    
-    if (message.type === 'matchEnd' && this.onStateChange) {
-      this.onStateChange({
-        showLeaderboard: true,
-        leaderboard: message.leaderboard
-      });
+  private presentRuleEvent(event: RuleEvent) {
+    const text = describeRuleEvent(event);
+    const quadrantCenter = (role: string) => {
+      const overlay = this.quadrantOverlays[role];
+      return overlay ? new THREE.Vector3(overlay.position.x, 0, overlay.position.z) : new THREE.Vector3(0, 0, 0);
+    };
+
+    switch (event.kind) {
+      case 'touch':
+        // Touches are frequent; keep them in the feed only
+        pushFeed(this.store, text);
+        break;
+      case 'bounce':
+        pushFeed(this.store, text);
+        this.showCallout(`${roleLabel(event.role)} ×${event.count}`, new THREE.Vector3(event.x, 0, event.z), '#FFFFFF');
+        break;
+      case 'fault':
+        pushFeed(this.store, text, 'bad');
+        this.showCallout('FAULT', quadrantCenter(event.role), '#FF5252');
+        break;
+      case 'rotation':
+        pushFeed(this.store, text, 'bad');
+        this.showCallout(text, quadrantCenter(event.loserRole), '#FFD700');
+        break;
     }
+  }
 
-    if (message.type === 'quadrantHighlight') {
-      const role: string = message.role;
-      const color: string = message.color; // 'blue' or 'red'
-      const mesh = this.quadrantOverlays[role];
-      if (mesh) {
-        const matAny = mesh.material as any;
-        const mat: THREE.MeshLambertMaterial | null = Array.isArray(matAny)
-          ? (matAny[0] instanceof THREE.MeshLambertMaterial ? matAny[0] : null)
-          : (matAny instanceof THREE.MeshLambertMaterial ? matAny : null);
-        if (mat) {
-          const originalColor = mat.color.getHex();
-          const targetColor = color === 'red' ? 0xFF0000 : 0x0000FF;
-          const originalOpacity = mat.opacity;
-          mat.color.setHex(targetColor);
-          mat.opacity = 0.65;
-          setTimeout(() => {
-            mat.color.setHex(originalColor);
-            mat.opacity = originalOpacity;
-          }, 600);
-        }
+  // Floating text above the court that rises and fades out
+  private showCallout(text: string, position: THREE.Vector3, color: string) {
+    const sprite = this.createTextSprite(text, color);
+    sprite.position.set(position.x, 2.5, position.z);
+    this.scene.add(sprite);
+    this.callouts.push({ sprite, startTime: performance.now() });
+  }
+
+  private createTextSprite(text: string, color: string): THREE.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1024;
+    canvas.height = 160;
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = 'bold 72px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 10;
+    ctx.strokeStyle = 'rgba(0,0,0,0.85)';
+    ctx.strokeText(text, canvas.width / 2, canvas.height / 2);
+    ctx.fillStyle = color;
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true, depthTest: false });
+    const sprite = new THREE.Sprite(material);
+    sprite.scale.set(8, 1.25, 1);
+    sprite.renderOrder = 10;
+    return sprite;
+  }
+
+  private updateCallouts(now: number) {
+    const duration = 1800;
+    this.callouts = this.callouts.filter(({ sprite, startTime }) => {
+      const t = (now - startTime) / duration;
+      if (t >= 1) {
+        this.removeCallout(sprite);
+        return false;
       }
+      sprite.position.y = 2.5 + t * 1.5;
+      sprite.material.opacity = t < 0.7 ? 1 : 1 - (t - 0.7) / 0.3;
+      return true;
+    });
+  }
+
+  // Bobs over the player's mesh or a quadrant overlay, depending on the tutorial step
+  private updateTutorialMarker(now: number) {
+    const { active, step } = this.store.getState().tutorial;
+    const current = active ? TUTORIAL_STEPS[step] : undefined;
+    const wanted = current?.anchor && current.label ? step : null;
+    if (this.tutorialMarker && this.tutorialMarker.step !== wanted) {
+      this.removeCallout(this.tutorialMarker.sprite);
+      this.tutorialMarker = null;
+    }
+    if (wanted === null || !current?.anchor || !current.label) return;
+    if (!this.tutorialMarker) {
+      const sprite = this.createTextSprite(current.label, '#FFEB3B');
+      this.scene.add(sprite);
+      this.tutorialMarker = { sprite, step: wanted };
+    }
+
+    const anchor = current.anchor === 'player'
+      ? this.playerMeshes.get(this.myPlayerId)
+      : this.quadrantOverlays[current.anchor];
+    const sprite = this.tutorialMarker.sprite;
+    sprite.visible = !!anchor;
+    if (!anchor) return;
+    const height = current.anchor === 'player' ? 3.4 : 2;
+    sprite.position.set(anchor.position.x, height + Math.sin(now * 0.004) * 0.15, anchor.position.z);
+  }
+
+  private removeCallout(sprite: THREE.Sprite) {
+    this.scene.remove(sprite);
+    sprite.material.map?.dispose();
+    sprite.material.dispose();
+  }
+
+  // Entries without an id are matched to players by nickname, taking the one whose time as
+  // Rey is closest. Two players with the same name and time stay ambiguous; one who already
+  // left can't be matched and stays without an id
+  private identifyLeaderboard(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+    const unclaimed = Array.from(this.latestState?.players.values() ?? [])
+      .filter(p => !entries.some(entry => entry.id === p.id));
+    return entries.map(entry => {
+      if (entry.id) return entry;
+      const candidates = unclaimed.filter(p => p.nickname === entry.nickname);
+      if (candidates.length === 0) return entry;
+      const best = candidates.reduce((a, b) =>
+        Math.abs(b.timeAsRey - entry.timeAsRey) < Math.abs(a.timeAsRey - entry.timeAsRey) ? b : a);
+      unclaimed.splice(unclaimed.indexOf(best), 1);
+      return { ...entry, id: best.id };
+    });
+  }
+
+  private highlightWinner(playerId: string) {
+    this.clearWinnerHighlight();
+    const mesh = this.playerMeshes.get(playerId);
+    if (!mesh) return;
+
+    const highlight = new THREE.Group();
+    highlight.name = 'winnerHighlight';
+
+    const ring = new THREE.Mesh(
+      new THREE.RingGeometry(1, 1.3, 32),
+      new THREE.MeshBasicMaterial({ color: 0xFFD700, transparent: true, opacity: 0.9, side: THREE.DoubleSide })
+    );
+    ring.rotation.x = -Math.PI / 2;
+    ring.position.y = 0.03;
+    highlight.add(ring);
+
+    const beam = new THREE.Mesh(
+      new THREE.CylinderGeometry(1, 1, 12, 24, 1, true),
+      new THREE.MeshBasicMaterial({ color: 0xFFED4E, transparent: true, opacity: 0.18, depthWrite: false, side: THREE.DoubleSide })
+    );
+    beam.position.y = 6;
+    highlight.add(beam);
+
+    mesh.add(highlight);
+    this.winnerHighlight = highlight;
+  }
+
+  private clearWinnerHighlight() {
+    if (!this.winnerHighlight) return;
+    this.winnerHighlight.removeFromParent();
+    this.disposeObject(this.winnerHighlight);
+    this.winnerHighlight = null;
+  }
+
+  // Reuse unchanged summaries so the players slice keeps its identity between patches
+  private summarizePlayers(state: GameStateSchema): PlayerSummary[] {
+    const next = new Map<string, PlayerSummary>();
+    for (const [id, p] of state.players) {
+      const summary: PlayerSummary = { id, nickname: p.nickname, role: p.role, color: p.color, timeAsRey: p.timeAsRey };
+      const previous = this.playerSummaries.get(id);
+      next.set(id, previous && shallowEqual(previous, summary) ? previous : summary);
     }
+    this.playerSummaries = next;
+    return Array.from(next.values());
+  }
 
-    if (message.type === 'rolesRotated') {
-      for (const [pid, mesh] of this.playerMeshes) {
+  // Track how often roles rotate so the queue panel can estimate wait times
+  private recordRotation() {
+    const now = performance.now();
+    this.rotationTimes.push(now);
+    if (this.rotationTimes.length > 6) this.rotationTimes.shift();
+    if (this.rotationTimes.length < 2) return;
+    const span = now - this.rotationTimes[0];
+    const avg = span / (this.rotationTimes.length - 1) / 1000;
+    this.store.update('queue', { avgRotationSeconds: avg });
+  }
+
+  // One handler per inbound 'event' type; messages are validated before dispatch
+  private readonly gameEventHandlers: GameEventHandlers = {
+    matchEnd: (event) => {
+      const entries = this.identifyLeaderboard(event.leaderboard);
+      this.store.update('leaderboard', { entries, visible: true });
+      if (entries[0]?.id) {
+        this.highlightWinner(entries[0].id);
+      }
+    },
+
+    quadrantHighlight: (event) => {
+      if (event.color === 'red') {
+        this.presentRuleEvent({ kind: 'fault', role: event.role });
+      }
+      const mesh = this.quadrantOverlays[event.role];
+      if (!mesh) return;
+      const mat = mesh.material;
+      if (!(mat instanceof THREE.MeshLambertMaterial)) return;
+      const originalColor = mat.color.getHex();
+      const targetColor = event.color === 'red' ? 0xFF0000 : 0x0000FF;
+      const originalOpacity = mat.opacity;
+      mat.color.setHex(targetColor);
+      mat.opacity = 0.65;
+      setTimeout(() => {
+        mat.color.setHex(originalColor);
+        mat.opacity = originalOpacity;
+      }, 600);
+    },
+
+    rolesRotated: (event) => {
+      this.recordRotation();
+      this.presentRuleEvent(this.rules.explainRotation(event.reason));
+      this.startInstantReplay();
+      for (const mesh of this.playerMeshes.values()) {
         const baseScale = mesh.scale.x || 1;
         let t = 0;
         const pulse = () => {
@@ -925,34 +1712,109 @@ export default class GameScene {
         pulse();
       }
     }
+  };
+
+  private handleGameEvent(raw: unknown) {
+    const result = parseGameEvent(raw);
+    if (!result.ok) {
+      this.protocolStats.recordInbound('event', result, raw);
+      return;
+    }
+    dispatchGameEvent(this.gameEventHandlers, result.value);
   }
 
-  public setInput(input: InputState) {
-    // Trigger animation when action is performed
-    if (input.action && this.currentInput.action !== input.action) {
-      this.animatePlayerKick(this.myPlayerId, input.action);
+  private handlePlayerAnimation(raw: unknown) {
+    const result = parsePlayerAnimation(raw);
+    if (!result.ok) {
+      this.protocolStats.recordInbound('playerAnimation', result, raw);
+      return;
     }
-    
+    this.animatePlayerKick(result.value.playerId, result.value.action);
+  }
+
+  private send<K extends keyof OutboundMessages>(type: K, message: OutboundMessages[K]) {
+    if (!this.room) return;
+    if (!validateOutbound(type, message)) {
+      this.protocolStats.recordRejectedOutbound(type, message);
+      return;
+    }
+    this.room.send(type, message);
+  }
+
+  public getProtocolStats(): Readonly<ProtocolStats> {
+    return this.protocolStats;
+  }
+
+  public setInput(input: InputState) {
+    if (this.replay || this.spectating) return;
     this.currentInput = { ...input };
   }
 
+  /** A discrete press: queued and sent once, stamped with the time it happened. */
+  public triggerAction(action: DiscreteAction) {
+    if (this.replay || this.spectating) return;
+    if (this.latestState?.players.get(this.myPlayerId)?.role === 'queue') return;
+    // Jumping or hitting means the player wants to get back to the live game
+    if (this.instantReplay) this.skipInstantReplay();
+
+    if (action === 'jump') this.predictor.queueJump();
+    else this.animatePlayerKick(this.myPlayerId, action);
+
+    this.pendingActions.push({
+      type: 'action',
+      seq: this.nextActionSeq++,
+      action,
+      clientTime: Date.now(),
+      inputSeq: this.predictor.pendingSeq
+    });
+    this.flushActions();
+  }
+
+  private flushActions() {
+    if (!this.room) {
+      // A press from before a dropped connection is meaningless once we're back
+      const cutoff = Date.now() - GameScene.ACTION_TTL_MS;
+      this.pendingActions = this.pendingActions.filter(a => a.clientTime >= cutoff);
+      return;
+    }
+    for (const action of this.pendingActions) {
+      this.send('action', action);
+    }
+    this.pendingActions = [];
+  }
+
+  // No movement goes out while we have no court spot or the rally hasn't been served
+  private inputSuppressed(): boolean {
+    if (this.spectating) return true;
+    const me = this.latestState?.players.get(this.myPlayerId);
+    return !me || me.role === 'queue' || !!this.latestState?.waitingForServe;
+  }
+
   private sendInput() {
-    if (!this.room) return;
+    this.flushActions();
+    if (!this.room || this.inputSuppressed()) {
+      this.inputSender.reset();
+      return;
+    }
 
-  const now = Date.now();
-  if (now - this.lastInputSent < 33) return; // Throttle to ~30fps
+    const now = performance.now();
+    if (!this.inputSender.shouldSend(this.worldMove, now)) return;
 
-    this.room.send('input', {
+    this.send('input', {
       type: 'input',
-      move: this.currentInput.move,
-      jump: this.currentInput.jump,
-      action: this.currentInput.action
+      seq: this.predictor.commit(),
+      move: this.worldMove
     });
-
-    this.lastInputSent = now;
+    this.inputSender.markSent(this.worldMove, now);
+    this.networkStats.recordInput();
   }
 
   private animatePlayerKick(playerId: string, action: string = 'kick') {
+    const rig = this.characterRigs.get(playerId);
+    if (rig) {
+      if (action === 'kick' || action === 'head') rig.playStrike(action);
+      return;
+    }
     // Start kick or head animation
     this.playerAnimations.set(playerId, {
       type: action,
@@ -1037,28 +1899,39 @@ export default class GameScene {
   }
 
   public getMyPlayer() {
-    return this.room?.state.players.get(this.myPlayerId);
+    return this.latestState?.players.get(this.myPlayerId);
+  }
+
+  private disposeObject(object: THREE.Object3D) {
+    object.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        if (Array.isArray(child.material)) {
+          for (const material of child.material) {
+            material.dispose();
+          }
+        } else {
+          child.material.dispose();
+        }
+      }
+    });
   }
 
   public dispose() {
+    this.disposed = true;
+    cancelAnimationFrame(this.animationFrameId);
+    clearInterval(this.inputInterval);
+    window.removeEventListener('resize', this.handleResize);
+    this.closeReplay();
+    this.spectatorCamera?.dispose();
     if (this.room) {
       this.room.leave();
     }
     
     // Dispose Three.js resources
-    for (const mesh of this.playerMeshes.values()) {
-      mesh.traverse(child => {
-        if (child instanceof THREE.Mesh) {
-          child.geometry.dispose();
-          if (Array.isArray(child.material)) {
-            for (const material of child.material) {
-              material.dispose();
-            }
-          } else {
-            child.material.dispose();
-          }
-        }
-      });
+    for (const [playerId, mesh] of this.playerMeshes) {
+      this.disposeCharacter(playerId);
+      this.disposeObject(mesh);
     }
 
     if (this.ballMesh) {
@@ -1067,18 +1940,15 @@ export default class GameScene {
     }
 
     if (this.courtMesh) {
-      this.courtMesh.traverse(child => {
-        if (child instanceof THREE.Mesh) {
-          child.geometry.dispose();
-          if (Array.isArray(child.material)) {
-            for (const material of child.material) {
-              material.dispose();
-            }
-          } else {
-            child.material.dispose();
-          }
-        }
-      });
+      this.disposeObject(this.courtMesh);
+    }
+
+    if (this.trajectoryLine) {
+      this.trajectoryLine.geometry.dispose();
+      (this.trajectoryLine.material as THREE.Material).dispose();
+    }
+    if (this.landingMarker) {
+      this.disposeObject(this.landingMarker);
     }
 
     this.renderer.dispose();
@@ -0,0 +1,53 @@
+import * as THREE from 'three';
+import { CAMERA_RIGS, type CameraRig, type CameraRigContext, type CameraRigId } from './cameraRigs.ts';
+
+// Per-frame lerp factor for FOV changes when switching rigs or rotating the device
+const FOV_LERP = 0.1;
+
+/** Moves the camera toward the selected rig's pose with that rig's smoothing and FOV. */
+export default class CameraRigController {
+  private rig: CameraRig;
+  private readonly lookTarget = new THREE.Vector3(0, 1, 0);
+
+  constructor(
+    private readonly camera: THREE.PerspectiveCamera,
+    rigId: CameraRigId
+  ) {
+    this.rig = CAMERA_RIGS[rigId];
+  }
+
+  public get rigId(): CameraRigId {
+    return this.rig.id;
+  }
+
+  public setRig(rigId: CameraRigId) {
+    this.rig = CAMERA_RIGS[rigId];
+  }
+
+  /** Jump straight to the rig's pose, e.g. on startup. */
+  public snap(context: CameraRigContext) {
+    const pose = this.rig.pose(context);
+    this.camera.position.copy(pose.position);
+    this.lookTarget.copy(pose.lookAt);
+    this.camera.lookAt(this.lookTarget);
+    this.camera.fov = this.targetFov(context);
+    this.camera.updateProjectionMatrix();
+  }
+
+  public update(context: CameraRigContext) {
+    const pose = this.rig.pose(context);
+    this.camera.position.lerp(pose.position, this.rig.positionLerp);
+    this.lookTarget.lerp(pose.lookAt, this.rig.lookLerp);
+    this.camera.lookAt(this.lookTarget);
+
+    const fov = this.targetFov(context);
+    if (Math.abs(this.camera.fov - fov) > 0.01) {
+      this.camera.fov += (fov - this.camera.fov) * FOV_LERP;
+      this.camera.updateProjectionMatrix();
+    }
+  }
+
+  private targetFov(context: CameraRigContext): number {
+    return context.portrait ? this.rig.fov.portrait : this.rig.fov.landscape;
+  }
+}
@@ -0,0 +1,162 @@
+import * as THREE from 'three';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import CharacterRig, { type CharacterClipName } from './CharacterRig.ts';
+
+const MODEL_URL = `${import.meta.env.BASE_URL}among.fbx`;
+// Roughly the height of the built-in character, so labels and reach still line up
+const MODEL_HEIGHT = 2.2;
+
+// Bones in among.fbx. The model faces +z, so its left side is +x
+const BONES = {
+  body: 'Bone',
+  leftLeg: 'Bone004',
+  rightLeg: 'Bone006'
+} as const;
+
+type BoneKey = keyof typeof BONES;
+
+// Rotation of one bone about the character's x axis, in radians: positive tilts the
+// body forward and swings a leg back
+interface BoneKeys {
+  bone: BoneKey;
+  times: number[];
+  angles: number[];
+}
+
+const CLIP_KEYS: Record<CharacterClipName, { duration: number; keys: BoneKeys[] }> = {
+  idle: {
+    duration: 2,
+    keys: [{ bone: 'body', times: [0, 1, 2], angles: [0, 0.04, 0] }]
+  },
+  walk: {
+    duration: 0.8,
+    keys: [
+      { bone: 'leftLeg', times: [0, 0.4, 0.8], angles: [-0.35, 0.35, -0.35] },
+      { bone: 'rightLeg', times: [0, 0.4, 0.8], angles: [0.35, -0.35, 0.35] },
+      { bone: 'body', times: [0, 0.2, 0.4, 0.6, 0.8], angles: [0.04, 0.07, 0.04, 0.07, 0.04] }
+    ]
+  },
+  run: {
+    duration: 0.5,
+    keys: [
+      { bone: 'leftLeg', times: [0, 0.25, 0.5], angles: [-0.7, 0.7, -0.7] },
+      { bone: 'rightLeg', times: [0, 0.25, 0.5], angles: [0.7, -0.7, 0.7] },
+      { bone: 'body', times: [0, 0.125, 0.25, 0.375, 0.5], angles: [0.15, 0.22, 0.15, 0.22, 0.15] }
+    ]
+  },
+  // Legs trail on the way up and reach forward on the way down
+  jumpRise: {
+    duration: 0.2,
+    keys: [
+      { bone: 'leftLeg', times: [0, 0.2], angles: [0, 0.3] },
+      { bone: 'rightLeg', times: [0, 0.2], angles: [0, 0.2] },
+      { bone: 'body', times: [0, 0.2], angles: [0, -0.08] }
+    ]
+  },
+  fall: {
+    duration: 0.3,
+    keys: [
+      { bone: 'leftLeg', times: [0, 0.3], angles: [0.3, -0.5] },
+      { bone: 'rightLeg', times: [0, 0.3], angles: [0.2, -0.25] },
+      { bone: 'body', times: [0, 0.3], angles: [-0.08, 0.05] }
+    ]
+  },
+  land: {
+    duration: 0.22,
+    keys: [
+      { bone: 'leftLeg', times: [0, 0.08, 0.22], angles: [-0.3, -0.35, 0] },
+      { bone: 'rightLeg', times: [0, 0.08, 0.22], angles: [-0.2, -0.3, 0] },
+      { bone: 'body', times: [0, 0.08, 0.22], angles: [0.25, 0.3, 0] }
+    ]
+  },
+  kick: {
+    duration: 0.5,
+    keys: [
+      { bone: 'rightLeg', times: [0, 0.15, 0.3, 0.5], angles: [0, 0.6, -1.3, 0] },
+      { bone: 'leftLeg', times: [0, 0.3, 0.5], angles: [0, 0.25, 0] },
+      { bone: 'body', times: [0, 0.15, 0.3, 0.5], angles: [0, 0.1, -0.25, 0] }
+    ]
+  },
+  head: {
+    duration: 0.5,
+    keys: [{ bone: 'body', times: [0, 0.15, 0.3, 0.5], angles: [0, -0.25, 0.45, 0] }]
+  }
+};
+
+/**
+ * The among.fbx character, loaded once and shared. The file has a skeleton but no
+ * animations, so the clips are keyframed here on its bones. Each player gets its own
+ * skinned clone with its own materials.
+ */
+export default class CharacterModel {
+  private constructor(
+    private readonly template: THREE.Object3D,
+    private readonly clips: Record<CharacterClipName, THREE.AnimationClip>
+  ) {}
+
+  public static fromObject(source: THREE.Object3D): CharacterModel {
+    // The export carries its own light and camera
+    const strays: THREE.Object3D[] = [];
+    source.traverse(child => {
+      if (child instanceof THREE.Light || child instanceof THREE.Camera) strays.push(child);
+    });
+    for (const child of strays) child.removeFromParent();
+
+    // Feet on the ground, centred and scaled to the built-in character's size
+    const template = new THREE.Group();
+    template.add(source);
+    template.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(source);
+    const size = box.getSize(new THREE.Vector3());
+    if (size.y <= 0) throw new Error('Character model is empty');
+    const scale = MODEL_HEIGHT / size.y;
+    source.scale.multiplyScalar(scale);
+    source.position.set(
+      (source.position.x - (box.min.x + box.max.x) / 2) * scale,
+      (source.position.y - box.min.y) * scale,
+      (source.position.z - (box.min.z + box.max.z) / 2) * scale
+    );
+    template.updateMatrixWorld(true);
+
+    const bones = {} as Record<BoneKey, THREE.Bone>;
+    for (const key of Object.keys(BONES) as BoneKey[]) {
+      const bone = template.getObjectByName(BONES[key]);
+      if (!(bone instanceof THREE.Bone)) throw new Error(`Character model has no bone ${BONES[key]}`);
+      bones[key] = bone;
+    }
+
+    const clips = {} as Record<CharacterClipName, THREE.AnimationClip>;
+    for (const name of Object.keys(CLIP_KEYS) as CharacterClipName[]) {
+      const { duration, keys } = CLIP_KEYS[name];
+      clips[name] = new THREE.AnimationClip(name, duration, keys.map(k => CharacterModel.boneTrack(bones[k.bone], k)));
+    }
+    return new CharacterModel(template, clips);
+  }
+
+  public createRig(colorHex: number): CharacterRig {
+    return new CharacterRig(cloneSkinned(this.template), this.clips, colorHex);
+  }
+
+  // Bones are oriented every which way, so turn the character-space x axis into each
+  // bone's own frame and rotate its bind pose about that
+  private static boneTrack(bone: THREE.Bone, keys: BoneKeys): THREE.QuaternionKeyframeTrack {
+    const boneWorld = bone.getWorldQuaternion(new THREE.Quaternion());
+    const axis = new THREE.Vector3(1, 0, 0).applyQuaternion(boneWorld.invert());
+    const turn = new THREE.Quaternion();
+    const values: number[] = [];
+    for (const angle of keys.angles) {
+      turn.setFromAxisAngle(axis, angle);
+      values.push(...bone.quaternion.clone().multiply(turn).toArray());
+    }
+    return new THREE.QuaternionKeyframeTrack(`${bone.name}.quaternion`, keys.times, values);
+  }
+}
+
+let loading: Promise<CharacterModel> | null = null;
+
+/** Loads among.fbx on first use; later calls share the same result. */
+export const loadCharacterModel = (): Promise<CharacterModel> => {
+  loading ??= new FBXLoader().loadAsync(MODEL_URL).then(CharacterModel.fromObject);
+  return loading;
+};
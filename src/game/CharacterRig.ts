@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import { PLAYER_SPEED } from './constants.ts';
+import type { LocomotionState } from './Locomotion.ts';
+
+export type CharacterClipName = LocomotionState | 'kick' | 'head';
+
+const FADE_SECONDS = 0.15;
+// Ground speeds at which the walk and run cycles play at their authored pace
+const WALK_CLIP_SPEED = 2.5;
+const RUN_CLIP_SPEED = PLAYER_SPEED;
+// How much of the locomotion pose a kick or header replaces; the rest keeps the legs going
+const STRIKE_OVERRIDE = 0.7;
+const VISOR_COLOR = 0x1a1a2e;
+
+const LOOPING: ReadonlySet<CharacterClipName> = new Set(['idle', 'walk', 'run']);
+
+/**
+ * One player's instance of the character model: tinted materials and an AnimationMixer
+ * that cross-fades between locomotion states, with kicks and headers blended over them.
+ */
+export default class CharacterRig {
+  private readonly mixer: THREE.AnimationMixer;
+  private readonly actions: Record<CharacterClipName, THREE.AnimationAction>;
+  private readonly bodyMaterial = new THREE.MeshLambertMaterial();
+  private readonly backpackMaterial = new THREE.MeshLambertMaterial();
+  private readonly visorMaterial = new THREE.MeshLambertMaterial({ color: VISOR_COLOR, transparent: true, opacity: 0.85 });
+  private colorHex = -1;
+  private locomotion: LocomotionState = 'idle';
+  // Kick or header in progress, and how far it's faded in
+  private strike: THREE.AnimationAction | null = null;
+  private strikeWeight = 0;
+
+  constructor(
+    public readonly object: THREE.Object3D,
+    clips: Record<CharacterClipName, THREE.AnimationClip>,
+    colorHex: number
+  ) {
+    object.name = 'characterModel';
+    object.traverse(child => {
+      if (!(child instanceof THREE.Mesh)) return;
+      // Material slots are named in the export: SUIT, JET (the backpack) and GLASS
+      const pick = (material: THREE.Material) => {
+        if (material.name === 'GLASS') return this.visorMaterial;
+        if (material.name === 'JET') return this.backpackMaterial;
+        return this.bodyMaterial;
+      };
+      child.material = Array.isArray(child.material) ? child.material.map(pick) : pick(child.material);
+    });
+    this.setColor(colorHex);
+
+    this.mixer = new THREE.AnimationMixer(object);
+    this.actions = {} as Record<CharacterClipName, THREE.AnimationAction>;
+    for (const name of Object.keys(clips) as CharacterClipName[]) {
+      const action = this.mixer.clipAction(clips[name]);
+      if (!LOOPING.has(name)) {
+        // One-shot poses hold their last frame until something fades in over them
+        action.setLoop(THREE.LoopOnce, 1);
+        action.clampWhenFinished = true;
+      }
+      this.actions[name] = action;
+    }
+    this.actions.idle.play();
+  }
+
+  public setColor(colorHex: number) {
+    if (colorHex === this.colorHex) return;
+    this.colorHex = colorHex;
+    this.bodyMaterial.color.setHex(colorHex);
+    this.backpackMaterial.color.setHex(colorHex).multiplyScalar(0.8);
+  }
+
+  /** Play a kick or header over whatever the legs are doing. */
+  public playStrike(action: 'kick' | 'head') {
+    if (this.strike && this.strike !== this.actions[action]) this.strike.stop();
+    this.strike = this.actions[action];
+    this.strike.reset().play();
+  }
+
+  public update(dt: number, state: LocomotionState, groundSpeed: number) {
+    if (state !== this.locomotion) {
+      this.actions[state].reset().fadeIn(FADE_SECONDS).play();
+      this.actions[this.locomotion].fadeOut(FADE_SECONDS);
+      this.locomotion = state;
+    }
+    // Step in time with the ground speed
+    const cycleSpeed = state === 'walk' ? WALK_CLIP_SPEED : RUN_CLIP_SPEED;
+    this.actions.walk.timeScale = this.actions.run.timeScale = Math.min(1.5, Math.max(0.5, groundSpeed / cycleSpeed));
+
+    // Fade the strike in while it plays and back out once it's done
+    const target = this.strike?.isRunning() ? 1 : 0;
+    const step = dt / FADE_SECONDS;
+    this.strikeWeight = target > this.strikeWeight
+      ? Math.min(target, this.strikeWeight + step)
+      : Math.max(target, this.strikeWeight - step);
+    if (this.strike) {
+      this.strike.weight = this.strikeWeight;
+      if (this.strikeWeight === 0 && target === 0) {
+        this.strike.stop();
+        this.strike = null;
+      }
+    }
+    // Weight multiplies any fade in progress, so this doesn't disturb the cross-fades
+    const locomotionWeight = 1 - STRIKE_OVERRIDE * this.strikeWeight;
+    for (const name of ['idle', 'walk', 'run', 'jumpRise', 'fall', 'land'] as const) {
+      this.actions[name].weight = locomotionWeight;
+    }
+
+    this.mixer.update(dt);
+  }
+
+  /** Squash-and-stretch, scaled from the feet. */
+  public setSquash(scaleXZ: number, scaleY: number) {
+    this.object.scale.set(scaleXZ, scaleY, scaleXZ);
+  }
+
+  public dispose() {
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.object);
+    this.object.removeFromParent();
+    this.bodyMaterial.dispose();
+    this.backpackMaterial.dispose();
+    this.visorMaterial.dispose();
+  }
+}
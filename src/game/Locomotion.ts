@@ -0,0 +1,108 @@
+import { PLAYER_JUMP_VELOCITY } from './constants.ts';
+
+export type LocomotionState = 'idle' | 'walk' | 'run' | 'jumpRise' | 'fall' | 'land';
+
+export interface LocomotionInput {
+  vx: number;
+  vz: number;
+  y: number;
+  jumping: boolean;
+}
+
+const WALK_SPEED = 0.5;        // ground speed, units per second, where idling turns into walking
+const RUN_SPEED = 4.5;         // and where walking turns into running
+const SPEED_HYSTERESIS = 0.3;  // so a speed right on a threshold doesn't flicker between states
+const AIRBORNE_HEIGHT = 0.05;
+const LAND_SECONDS = 0.22;
+const LAND_SQUASH = 0.28;      // how much a landing flattens the character, as a fraction of its height
+const RISE_STRETCH = 0.12;     // how much it stretches leaving the ground
+const SQUASH_SMOOTHING = 18;
+
+/**
+ * Picks one player's locomotion state from their velocity and jump flag, and works out
+ * the squash-and-stretch that goes with it. Vertical speed isn't synced, so it comes from
+ * the change in height between frames.
+ */
+export default class Locomotion {
+  private current: LocomotionState = 'idle';
+  private stateTime = 0;
+  private lastY: number | null = null;
+  private vy = 0;
+  private speed = 0;
+  private stretch = 0;
+
+  public get state(): LocomotionState {
+    return this.current;
+  }
+
+  public get groundSpeed(): number {
+    return this.speed;
+  }
+
+  // Vertical scale of the character; the sides scale the other way to keep its volume
+  public get scaleY(): number {
+    return 1 + this.stretch;
+  }
+
+  public get scaleXZ(): number {
+    return 1 / Math.sqrt(1 + this.stretch);
+  }
+
+  public update(dt: number, input: LocomotionInput): LocomotionState {
+    if (dt <= 0) return this.current;
+    this.vy = this.lastY === null ? 0 : (input.y - this.lastY) / dt;
+    this.lastY = input.y;
+    this.speed = Math.hypot(input.vx, input.vz);
+    this.stateTime += dt;
+
+    const next = this.nextState(input);
+    if (next !== this.current) {
+      this.current = next;
+      this.stateTime = 0;
+    }
+
+    // Ease towards the target stretch, except on touchdown where the squash is immediate
+    const target = this.targetStretch();
+    const ease = this.current === 'land' ? 1 : 1 - Math.exp(-SQUASH_SMOOTHING * dt);
+    this.stretch += (target - this.stretch) * ease;
+    return this.current;
+  }
+
+  public reset() {
+    this.current = 'idle';
+    this.stateTime = 0;
+    this.lastY = null;
+    this.vy = 0;
+    this.stretch = 0;
+  }
+
+  private nextState(input: LocomotionInput): LocomotionState {
+    const airborne = input.jumping || input.y > AIRBORNE_HEIGHT;
+    if (airborne) return this.vy >= 0 ? 'jumpRise' : 'fall';
+    if (this.current === 'jumpRise' || this.current === 'fall') return 'land';
+    if (this.current === 'land' && this.stateTime < LAND_SECONDS) return 'land';
+    return this.groundState();
+  }
+
+  private groundState(): LocomotionState {
+    // Moving up a state needs a little more speed than staying in it
+    const margin = (state: LocomotionState) => state === this.current ? -SPEED_HYSTERESIS : SPEED_HYSTERESIS;
+    if (this.speed >= RUN_SPEED + margin('run')) return 'run';
+    if (this.speed >= WALK_SPEED + margin('walk')) return 'walk';
+    return 'idle';
+  }
+
+  private targetStretch(): number {
+    switch (this.current) {
+      case 'jumpRise':
+        return RISE_STRETCH * Math.min(1, this.vy / PLAYER_JUMP_VELOCITY);
+      case 'land': {
+        // Flattest on touchdown, then a little overshoot back up before settling
+        const t = Math.min(1, this.stateTime / LAND_SECONDS);
+        return -LAND_SQUASH * Math.cos(t * Math.PI * 1.5) * (1 - t);
+      }
+      default:
+        return 0;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { BallState, GameStateSchema, PlayerState } from '../types.ts';
+import RulesTracker from './RulesTracker.ts';
+
+const player = (id: string, role: string): PlayerState => ({
+  id, nickname: id.toUpperCase(), color: '#ffffff', role, active: true,
+  x: 0, y: 0, z: 0, rotY: 0, jumping: false, vx: 0, vz: 0, timeAsRey: 0, lastInputSeq: 0
+});
+
+const gameState = (roles: Record<string, string>, ball: Partial<BallState> = {}, waitingForServe = false): GameStateSchema => ({
+  players: new Map(Object.entries(roles).map(([id, role]) => [id, player(id, role)])),
+  ball: {
+    x: 0, y: 1, z: 0, vx: 0, vy: 0, vz: 0,
+    lastTouchedBy: '', lastBounceOnRole: '', lastBounceTime: 0, bounceCount: 0,
+    ...ball
+  },
+  currentServer: '',
+  queue: [],
+  elapsed: 0,
+  matchDuration: 300,
+  matchStarted: true,
+  matchEnded: false,
+  waitingForServe
+});
+
+const before = { amy: 'rey', ben: 'mato', cal: 'rey1', dee: 'rey2' };
+// Ben dropped out of mato and everyone behind him moved up
+const after = { amy: 'rey', ben: 'rey2', cal: 'rey1', dee: 'mato' };
+// The rotating patch: rally cleared and the ball held over Rey's quadrant for the serve
+const rotated = (lift = 1.5) => gameState(after, { x: 4, y: lift, z: 4 }, true);
+
+// Amy hits it into mato, where it bounces twice
+const playRally = (tracker: RulesTracker) => {
+  tracker.observe(gameState(before));
+  tracker.observe(gameState(before, { lastTouchedBy: 'amy' }));
+  tracker.observe(gameState(before, { lastTouchedBy: 'amy', lastBounceOnRole: 'mato', lastBounceTime: 1, bounceCount: 1, x: 3, z: -3 }));
+  tracker.observe(gameState(before, { lastTouchedBy: 'amy', lastBounceOnRole: 'mato', lastBounceTime: 2, bounceCount: 2, x: 4, z: -4 }));
+};
+
+describe('RulesTracker', () => {
+  it('names the demoted player when rolesRotated arrives first', () => {
+    const tracker = new RulesTracker();
+    playRally(tracker);
+    expect(tracker.explainRotation()).toEqual({ kind: 'rotation', loserRole: 'mato', loserNickname: 'BEN', reason: 'double bounce' });
+  });
+
+  it('names the demoted player when the rotated roles arrive first', () => {
+    const tracker = new RulesTracker();
+    playRally(tracker);
+    tracker.observe(rotated());
+    expect(tracker.explainRotation()).toEqual({ kind: 'rotation', loserRole: 'mato', loserNickname: 'BEN', reason: 'double bounce' });
+  });
+
+  it('blames the hitter by the role they had when the ball went out', () => {
+    const tracker = new RulesTracker();
+    tracker.observe(gameState(before));
+    tracker.observe(gameState(before, { lastTouchedBy: 'ben' }));
+    tracker.observe(gameState(before, { lastTouchedBy: 'ben', x: 12, z: 2 }));
+    tracker.observe(rotated());
+    expect(tracker.explainRotation()).toEqual({ kind: 'rotation', loserRole: 'mato', loserNickname: 'BEN', reason: 'hit the ball out' });
+  });
+
+  it('still explains the rally when more patches land before rolesRotated', () => {
+    const tracker = new RulesTracker();
+    tracker.observe(gameState(before));
+    tracker.observe(gameState(before, { lastTouchedBy: 'ben' }));
+    tracker.observe(gameState(before, { lastTouchedBy: 'ben', x: 12, z: 2 }));
+    tracker.observe(rotated());
+    tracker.observe(rotated(1.6));
+    tracker.observe(rotated(1.7));
+    expect(tracker.explainRotation()).toEqual({ kind: 'rotation', loserRole: 'mato', loserNickname: 'BEN', reason: 'hit the ball out' });
+  });
+
+  it('uses the new roles for the rally after a rotation', () => {
+    const tracker = new RulesTracker();
+    playRally(tracker);
+    tracker.explainRotation();
+    tracker.observe(rotated());
+    // Served from Rey, Dee lets it bounce twice in mato now
+    tracker.observe(gameState(after, { lastTouchedBy: 'amy' }));
+    tracker.observe(gameState(after, { lastTouchedBy: 'amy', lastBounceOnRole: 'mato', lastBounceTime: 3, bounceCount: 1 }));
+    tracker.observe(gameState(after, { lastTouchedBy: 'amy', lastBounceOnRole: 'mato', lastBounceTime: 4, bounceCount: 2 }));
+    expect(tracker.explainRotation()).toEqual({ kind: 'rotation', loserRole: 'mato', loserNickname: 'DEE', reason: 'double bounce' });
+  });
+});
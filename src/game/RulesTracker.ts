@@ -0,0 +1,140 @@
+import { COURT_HALF_SIZE } from './constants.ts';
+import { isCourtRole } from '../net/protocol.ts';
+import type { GameStateSchema } from '../types.ts';
+
+export type RuleEvent =
+  | { kind: 'touch'; playerId: string; nickname: string; role: string }
+  | { kind: 'bounce'; role: string; count: number; x: number; z: number }
+  | { kind: 'fault'; role: string }
+  | { kind: 'rotation'; loserRole: string; loserNickname: string; reason: string };
+
+// What happened in the current rally, kept until the next rotation because the server
+// may already have reset the ball and rotated roles by the time `rolesRotated` arrives
+interface RallyInfo {
+  lastTouchedBy: string;
+  lastBounceRole: string;
+  bounceCount: number;
+  // Ball position and roles as of the last patch with the ball in play
+  ballX: number;
+  ballZ: number;
+  roles: Map<string, string>;
+}
+
+const emptyRally = (): RallyInfo => ({
+  lastTouchedBy: '', lastBounceRole: '', bounceCount: 0, ballX: 0, ballZ: 0, roles: new Map()
+});
+
+export const roleLabel = (role: string) => role.toUpperCase();
+
+export function describeRuleEvent(event: RuleEvent): string {
+  switch (event.kind) {
+    case 'touch':
+      return `${event.nickname} touched the ball`;
+    case 'bounce':
+      return `Bounce ${event.count} in ${roleLabel(event.role)}`;
+    case 'fault':
+      return `Fault in ${roleLabel(event.role)}`;
+    case 'rotation': {
+      const who = event.loserNickname ? `${roleLabel(event.loserRole)} (${event.loserNickname})` : roleLabel(event.loserRole);
+      return `${who} lost: ${event.reason}`;
+    }
+  }
+}
+
+/**
+ * Turns BallState changes between patches into rule events (touches, bounces) and explains
+ * role rotations from the rally that led to them, e.g. "MATO lost: double bounce".
+ */
+export default class RulesTracker {
+  private rally = emptyRally();
+  // The first patch only records the baseline so joining mid-rally doesn't replay it
+  private primed = false;
+  private lastTouchedBy = '';
+  private lastBounceTime = 0;
+  // Roles and names as of the latest patch
+  private roles = new Map<string, string>();
+  private nicknames = new Map<string, string>();
+
+  public observe(state: GameStateSchema): RuleEvent[] {
+    const events: RuleEvent[] = [];
+    const ball = state.ball;
+    if (!ball) return events;
+
+    this.roles = new Map(Array.from(state.players, ([id, p]) => [id, p.role]));
+    this.nicknames = new Map(Array.from(state.players, ([id, p]) => [id, p.nickname]));
+
+    if (!this.primed) {
+      this.primed = true;
+      this.lastTouchedBy = ball.lastTouchedBy;
+      this.lastBounceTime = ball.lastBounceTime;
+      return events;
+    }
+
+    if (ball.lastTouchedBy && ball.lastTouchedBy !== this.lastTouchedBy) {
+      events.push({
+        kind: 'touch',
+        playerId: ball.lastTouchedBy,
+        nickname: this.nicknames.get(ball.lastTouchedBy) ?? ball.lastTouchedBy,
+        role: this.roles.get(ball.lastTouchedBy) ?? ''
+      });
+      this.rally.lastTouchedBy = ball.lastTouchedBy;
+    }
+    this.lastTouchedBy = ball.lastTouchedBy;
+
+    if (ball.lastBounceTime && ball.lastBounceTime !== this.lastBounceTime && ball.lastBounceOnRole) {
+      events.push({ kind: 'bounce', role: ball.lastBounceOnRole, count: ball.bounceCount, x: ball.x, z: ball.z });
+      this.rally.lastBounceRole = ball.lastBounceOnRole;
+      this.rally.bounceCount = ball.bounceCount;
+    }
+    this.lastBounceTime = ball.lastBounceTime;
+
+    // The patch that rotates roles also brings the ball back for the serve; neither it nor
+    // anything up to the serve may overwrite how the rally ended
+    if (!state.waitingForServe) {
+      this.rally.ballX = ball.x;
+      this.rally.ballZ = ball.z;
+      this.rally.roles = this.roles;
+    }
+    return events;
+  }
+
+  /** Explain a rotation from the rally that caused it; a server-provided reason wins. */
+  public explainRotation(serverReason?: string): RuleEvent {
+    const { lastTouchedBy, lastBounceRole, bounceCount, ballX, ballZ } = this.rally;
+    const roles = this.rally.roles.size > 0 ? this.rally.roles : this.roles;
+    const toucherRole = roles.get(lastTouchedBy) ?? '';
+    const out = Math.abs(ballX) > COURT_HALF_SIZE || Math.abs(ballZ) > COURT_HALF_SIZE;
+
+    let loserRole = lastBounceRole;
+    let reason = 'fault';
+    if (bounceCount >= 2 && lastBounceRole) {
+      reason = 'double bounce';
+    } else if (isCourtRole(toucherRole) && lastBounceRole === toucherRole) {
+      loserRole = toucherRole;
+      reason = 'ball landed in own quadrant';
+    } else if (isCourtRole(toucherRole) && out) {
+      loserRole = toucherRole;
+      reason = 'hit the ball out';
+    } else if (lastBounceRole) {
+      reason = 'failed to return the ball';
+    }
+
+    const loserId = Array.from(roles).find(([, role]) => role === loserRole)?.[0];
+    this.rally = emptyRally();
+    return {
+      kind: 'rotation',
+      loserRole: loserRole || 'mato',
+      loserNickname: loserId ? this.nicknames.get(loserId) ?? '' : '',
+      reason: serverReason || reason
+    };
+  }
+
+  public reset() {
+    this.rally = emptyRally();
+    this.primed = false;
+    this.lastTouchedBy = '';
+    this.lastBounceTime = 0;
+    this.roles.clear();
+    this.nicknames.clear();
+  }
+}
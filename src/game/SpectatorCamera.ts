@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+export type SpectatorView = 'orbit' | 'top-down' | 'broadcast' | 'follow-player' | 'follow-ball';
+
+// Order matches the number hotkeys
+export const SPECTATOR_VIEWS: SpectatorView[] = ['orbit', 'top-down', 'broadcast', 'follow-player', 'follow-ball'];
+
+export const SPECTATOR_VIEW_LABELS: Record<SpectatorView, string> = {
+  'orbit': 'Orbit',
+  'top-down': 'Top-down',
+  'broadcast': 'Broadcast',
+  'follow-player': 'Follow player',
+  'follow-ball': 'Follow ball'
+};
+
+export interface SpectatorTargets {
+  ball: THREE.Vector3;
+  ballVelocity: THREE.Vector3;
+  // Position of the followed player, if any
+  player: THREE.Vector3 | null;
+}
+
+/** Camera views for spectators. Orbit is user-controlled; the others track the play. */
+export default class SpectatorCamera {
+  private view: SpectatorView = 'broadcast';
+  private orbit: OrbitControls | null = null;
+  private readonly lookTarget = new THREE.Vector3(0, 1, 0);
+  // Last horizontal direction of ball travel, so follow-ball doesn't flip when the ball stops
+  private readonly ballHeading = new THREE.Vector3(0, 0, -1);
+
+  constructor(
+    private readonly camera: THREE.PerspectiveCamera,
+    private readonly domElement: HTMLElement,
+    private readonly courtHalfSize: number
+  ) {}
+
+  public get currentView(): SpectatorView {
+    return this.view;
+  }
+
+  public setView(view: SpectatorView) {
+    if (view === this.view) return;
+    this.view = view;
+    if (view === 'orbit') {
+      this.orbit = new OrbitControls(this.camera, this.domElement);
+      this.orbit.target.set(0, 1, 0);
+      this.orbit.enableDamping = true;
+      this.orbit.autoRotate = true;
+      this.orbit.autoRotateSpeed = 0.5;
+      this.orbit.maxPolarAngle = Math.PI / 2 - 0.05;
+      // Stop spinning once the spectator takes over
+      this.orbit.addEventListener('start', () => {
+        if (this.orbit) this.orbit.autoRotate = false;
+      });
+    } else {
+      this.disposeOrbit();
+    }
+  }
+
+  public update(targets: SpectatorTargets) {
+    if (this.orbit) {
+      this.orbit.update();
+      return;
+    }
+
+    const { ball, ballVelocity, player } = targets;
+    const position = new THREE.Vector3();
+    const look = new THREE.Vector3();
+    let lerp = 0.08;
+
+    switch (this.view) {
+      case 'top-down':
+        // Tiny z offset keeps lookAt stable when looking straight down
+        position.set(0, this.courtHalfSize * 3.2, 0.01);
+        look.set(0, 0, 0);
+        lerp = 0.1;
+        break;
+      case 'broadcast':
+        // Elevated sideline camera that pans with the ball
+        position.set(ball.x * 0.5, 11, this.courtHalfSize + 13);
+        look.set(ball.x * 0.6, 0, ball.z * 0.3);
+        lerp = 0.05;
+        break;
+      case 'follow-player': {
+        if (!player) {
+          position.set(0, 11, this.courtHalfSize + 13);
+          look.set(0, 0, 0);
+          break;
+        }
+        // Behind the player, looking across the court toward the ball
+        const outward = new THREE.Vector3(player.x, 0, player.z);
+        if (outward.lengthSq() < 0.01) outward.set(0, 0, 1);
+        outward.normalize();
+        position.copy(player).addScaledVector(outward, 7).setY(6);
+        look.lerpVectors(player, ball, 0.5).setY(1);
+        break;
+      }
+      case 'follow-ball': {
+        const heading = new THREE.Vector3(ballVelocity.x, 0, ballVelocity.z);
+        if (heading.lengthSq() > 1) this.ballHeading.copy(heading.normalize());
+        position.copy(ball).addScaledVector(this.ballHeading, -8).setY(Math.max(4, ball.y + 3));
+        look.copy(ball);
+        break;
+      }
+    }
+
+    this.camera.position.lerp(position, lerp);
+    this.lookTarget.lerp(look, 0.15);
+    this.camera.lookAt(this.lookTarget);
+  }
+
+  public dispose() {
+    this.disposeOrbit();
+  }
+
+  private disposeOrbit() {
+    this.orbit?.dispose();
+    this.orbit = null;
+  }
+}
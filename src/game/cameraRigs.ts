@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { COURT_HALF_SIZE } from './constants.ts';
+
+export type CameraRigId = 'behind-court' | 'low-chase' | 'isometric' | 'tactical';
+
+export interface CameraRigContext {
+  // Local player, null while not on the court
+  player: { x: number; y: number; z: number; role: string } | null;
+  ball: THREE.Vector3;
+  // Narrow screens need the court framed differently
+  portrait: boolean;
+}
+
+export interface CameraPose {
+  position: THREE.Vector3;
+  lookAt: THREE.Vector3;
+}
+
+export interface CameraRig {
+  id: CameraRigId;
+  label: string;
+  fov: { landscape: number; portrait: number };
+  // Per-frame lerp factors toward the desired pose
+  positionLerp: number;
+  lookLerp: number;
+  pose(context: CameraRigContext): CameraPose;
+}
+
+// Rey and Rey 1 play the +z half of the court; the camera sits behind whichever half is ours
+const sideOf = (player: CameraRigContext['player']) =>
+  !player || player.role === 'rey' || player.role === 'rey1' ? 1 : -1;
+
+// The original view: high behind our half, nudged toward the player but keeping the whole court in frame
+const behindCourt: CameraRig = {
+  id: 'behind-court',
+  label: 'Behind court',
+  fov: { landscape: 75, portrait: 75 },
+  positionLerp: 0.06,
+  lookLerp: 1,
+  pose: ({ player, portrait }) => {
+    const distance = portrait ? 18 : 12;
+    const height = portrait ? 13 : 9;
+    if (!player) {
+      return {
+        position: new THREE.Vector3(0, height, COURT_HALF_SIZE + distance),
+        lookAt: new THREE.Vector3(0, 1, 0)
+      };
+    }
+    const shiftX = THREE.MathUtils.clamp(player.x * 0.4, -3, 3);
+    const shiftZ = THREE.MathUtils.clamp(player.z * 0.25, -2, 2);
+    return {
+      position: new THREE.Vector3(shiftX, height, sideOf(player) * (COURT_HALF_SIZE + distance) + shiftZ),
+      lookAt: new THREE.Vector3(player.x * 0.3, 1, 0)
+    };
+  }
+};
+
+// Low over the player's shoulder, looking past them toward the ball
+const lowChase: CameraRig = {
+  id: 'low-chase',
+  label: 'Low chase',
+  fov: { landscape: 65, portrait: 80 },
+  positionLerp: 0.12,
+  lookLerp: 0.2,
+  pose: ({ player, ball, portrait }) => {
+    if (!player) return behindCourt.pose({ player, ball, portrait });
+    const back = portrait ? 8 : 6;
+    return {
+      position: new THREE.Vector3(player.x * 0.8, portrait ? 3.5 : 2.5, player.z + sideOf(player) * back),
+      lookAt: new THREE.Vector3(
+        THREE.MathUtils.lerp(player.x, ball.x, 0.6),
+        1,
+        THREE.MathUtils.lerp(player.z, ball.z, 0.6)
+      )
+    };
+  }
+};
+
+// Fixed corner view with a narrow FOV, which flattens perspective toward isometric
+const isometric: CameraRig = {
+  id: 'isometric',
+  label: 'Isometric',
+  fov: { landscape: 35, portrait: 50 },
+  positionLerp: 0.05,
+  lookLerp: 0.1,
+  pose: ({ player, portrait }) => {
+    const side = sideOf(player);
+    const distance = portrait ? 30 : 24;
+    return {
+      position: new THREE.Vector3(side * distance * 0.7, distance * 0.8, side * distance * 0.7),
+      lookAt: new THREE.Vector3(0, 0, 0)
+    };
+  }
+};
+
+// Straight-ish down over the court for reading positions; tilted so our half is at the bottom
+const tactical: CameraRig = {
+  id: 'tactical',
+  label: 'Top-down tactical',
+  fov: { landscape: 50, portrait: 60 },
+  positionLerp: 0.1,
+  lookLerp: 0.1,
+  pose: ({ player, portrait }) => {
+    const side = sideOf(player);
+    return {
+      position: new THREE.Vector3(0, portrait ? 34 : 24, side * 5),
+      lookAt: new THREE.Vector3(0, 0, side * 0.5)
+    };
+  }
+};
+
+export const CAMERA_RIGS: Record<CameraRigId, CameraRig> = {
+  'behind-court': behindCourt,
+  'low-chase': lowChase,
+  'isometric': isometric,
+  'tactical': tactical
+};
+
+export const isCameraRigId = (value: unknown): value is CameraRigId =>
+  typeof value === 'string' && value in CAMERA_RIGS;
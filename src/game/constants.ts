@@ -0,0 +1,18 @@
+// Court and physics constants shared by rendering, prediction and local simulation.
+// Keep these in sync with the server.
+
+export const COURT_SIZE = 16;
+export const COURT_HALF_SIZE = COURT_SIZE / 2;
+
+export const BALL_RADIUS = 0.9;
+export const PLAYER_RADIUS = 0.6;
+
+export const PLAYER_SPEED = 8;           // units per second at full stick
+export const PLAYER_JUMP_VELOCITY = 8;   // initial upward speed of a jump
+export const GRAVITY = 20;               // downward acceleration, units per second²
+
+// Where a kick or header connects, measured from the player's feet to the ball centre
+export const STRIKE_REACH = PLAYER_RADIUS + BALL_RADIUS + 1;
+export const KICK_MAX_HEIGHT = 2.4;
+export const HEAD_MIN_HEIGHT = 1.6;
+export const HEAD_MAX_HEIGHT = 3.6;
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { screenToWorldMove } from './inputSpace.ts';
+import { CAMERA_RIGS, type CameraRigId } from './cameraRigs.ts';
+import { COURT_HALF_SIZE } from './constants.ts';
+import SpectatorCamera, { type SpectatorView } from './SpectatorCamera.ts';
+import type { CourtRole } from '../net/protocol.ts';
+
+// Where each role starts: Rey and Rey 1 on the +z half, Rey 2 and Mato on the -z half
+const CENTERS: Record<CourtRole, { x: number; z: number }> = {
+  rey: { x: 4, z: 4 },
+  rey1: { x: -4, z: 4 },
+  rey2: { x: -4, z: -4 },
+  mato: { x: 4, z: -4 }
+};
+
+const cameraAt = (position: THREE.Vector3, lookAt: THREE.Vector3) => {
+  const camera = new THREE.PerspectiveCamera();
+  camera.position.copy(position);
+  camera.lookAt(lookAt);
+  camera.updateMatrixWorld();
+  return camera;
+};
+
+// The camera's own right-hand direction, flattened onto the court
+const screenRight = (camera: THREE.Camera) => {
+  const right = new THREE.Vector3(1, 0, 0).applyQuaternion(camera.quaternion).setY(0).normalize();
+  return [right.x, right.z];
+};
+
+const expectMove = (actual: [number, number], expected: number[]) => {
+  expect(actual[0]).toBeCloseTo(expected[0], 2);
+  expect(actual[1]).toBeCloseTo(expected[1], 2);
+};
+
+// Screen up must be away from the camera (the expected [dx, dz]) and screen right must be
+// the camera's right, a quarter turn clockwise from up seen from above
+const expectMapping = (camera: THREE.Camera, up: number[]) => {
+  const length = Math.hypot(up[0], up[1]);
+  const forward = [up[0] / length, up[1] / length];
+  expectMove(screenToWorldMove([0, 1], camera), forward);
+  expectMove(screenToWorldMove([1, 0], camera), [-forward[1], forward[0]]);
+  expectMove(screenToWorldMove([1, 0], camera), screenRight(camera));
+  expectMove(screenToWorldMove([0, -0.5], camera), [-forward[0] / 2, -forward[1] / 2]);
+};
+
+describe('screenToWorldMove', () => {
+  it('leaves a centred stick at rest', () => {
+    const camera = cameraAt(new THREE.Vector3(0, 9, 20), new THREE.Vector3(0, 0, 0));
+    expect(screenToWorldMove([0, 0], camera)).toEqual([0, 0]);
+  });
+
+  // Screen up, as [dx, dz], for each player rig and role
+  const playerCases: Array<[CameraRigId, CourtRole, number[]]> = [
+    ['behind-court', 'rey', [-0.4, -21]],
+    ['behind-court', 'rey1', [0.4, -21]],
+    ['behind-court', 'rey2', [0.4, 21]],
+    ['behind-court', 'mato', [-0.4, 21]],
+    ['low-chase', 'rey', [-1.6, -8.4]],
+    ['low-chase', 'rey1', [1.6, -8.4]],
+    ['low-chase', 'rey2', [1.6, 8.4]],
+    ['low-chase', 'mato', [-1.6, 8.4]],
+    ['isometric', 'rey', [-1, -1]],
+    ['isometric', 'rey1', [-1, -1]],
+    ['isometric', 'rey2', [1, 1]],
+    ['isometric', 'mato', [1, 1]],
+    ['tactical', 'rey', [0, -1]],
+    ['tactical', 'rey1', [0, -1]],
+    ['tactical', 'rey2', [0, 1]],
+    ['tactical', 'mato', [0, 1]]
+  ];
+
+  it.each(playerCases)('%s rig as %s pushes up away from the camera', (rigId, role, up) => {
+    const center = CENTERS[role];
+    const pose = CAMERA_RIGS[rigId].pose({
+      player: { x: center.x, y: 0, z: center.z, role },
+      ball: new THREE.Vector3(0, 2, 0),
+      portrait: false
+    });
+    expectMapping(cameraAt(pose.position, pose.lookAt), up);
+  });
+
+  // Spectator views, settled on a ball in the middle of the court moving towards +x
+  const spectatorCases: Array<[SpectatorView, CourtRole | null, number[]]> = [
+    ['top-down', null, [0, -1]],
+    ['broadcast', null, [0, -1]],
+    ['follow-ball', null, [1, 0]],
+    ['follow-player', 'rey', [-1, -1]],
+    ['follow-player', 'rey1', [1, -1]],
+    ['follow-player', 'rey2', [1, 1]],
+    ['follow-player', 'mato', [-1, 1]]
+  ];
+
+  it.each(spectatorCases)('%s spectator view following %s pushes up away from the camera', (view, role, up) => {
+    const camera = new THREE.PerspectiveCamera();
+    const spectator = new SpectatorCamera(camera, {} as HTMLElement, COURT_HALF_SIZE);
+    spectator.setView(view);
+    const center = role ? CENTERS[role] : null;
+    const targets = {
+      ball: new THREE.Vector3(0, 2, 0),
+      ballVelocity: new THREE.Vector3(5, 0, 0),
+      player: center ? new THREE.Vector3(center.x, 0, center.z) : null
+    };
+    // The views ease towards their pose, so give them time to settle
+    for (let i = 0; i < 500; i++) spectator.update(targets);
+    camera.updateMatrixWorld();
+    expectMapping(camera, up);
+  });
+});
@@ -0,0 +1,29 @@
+import * as THREE from 'three';
+
+const forward = new THREE.Vector3();
+const right = new THREE.Vector3();
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Convert a screen-space move vector (x to the right, y up the screen) into the world-space
+ * [dx, dz] the server expects, using the camera's actual orientation. "Up" on the screen
+ * always moves away from the camera across the court, whatever rig or side we're on.
+ */
+export function screenToWorldMove(move: [number, number], camera: THREE.Camera): [number, number] {
+  const [x, y] = move;
+  if (x === 0 && y === 0) return [0, 0];
+
+  camera.getWorldDirection(forward);
+  forward.y = 0;
+  // Looking straight down: the top of the screen is the way forward
+  if (forward.lengthSq() < 1e-6) {
+    forward.copy(camera.up).applyQuaternion(camera.quaternion).setY(0);
+  }
+  forward.normalize();
+  right.crossVectors(forward, WORLD_UP).normalize();
+
+  return [
+    right.x * x + forward.x * y,
+    right.z * x + forward.z * y
+  ];
+}
@@ -0,0 +1,53 @@
+import { BALL_RADIUS, COURT_HALF_SIZE, GRAVITY } from './constants.ts';
+import type { CourtRole } from '../net/protocol.ts';
+
+export interface BallKinematics {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+export interface Landing {
+  // Seconds until the ball touches the ground
+  time: number;
+  x: number;
+  z: number;
+}
+
+/** Time and place where the ball will next touch the ground, ignoring players. */
+export function predictLanding(ball: BallKinematics): Landing | null {
+  const height = ball.y - BALL_RADIUS;
+  // Resting or rolling on the ground: nothing to predict
+  if (height <= 0.05 && ball.vy <= 0.5) return null;
+
+  // Solve height + vy·t − ½g·t² = 0 for the positive root
+  const disc = ball.vy * ball.vy + 2 * GRAVITY * Math.max(0, height);
+  const time = (ball.vy + Math.sqrt(disc)) / GRAVITY;
+  if (!Number.isFinite(time) || time <= 0) return null;
+
+  return { time, x: ball.x + ball.vx * time, z: ball.z + ball.vz * time };
+}
+
+/** Ball centre positions along the arc from now until `duration` seconds. */
+export function sampleArc(ball: BallKinematics, duration: number, segments: number): Array<[number, number, number]> {
+  const points: Array<[number, number, number]> = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = (duration * i) / segments;
+    points.push([
+      ball.x + ball.vx * t,
+      Math.max(BALL_RADIUS, ball.y + ball.vy * t - 0.5 * GRAVITY * t * t),
+      ball.z + ball.vz * t
+    ]);
+  }
+  return points;
+}
+
+/** Quadrant containing a court position, or null when it is out. */
+export function quadrantAt(x: number, z: number): CourtRole | null {
+  if (Math.abs(x) > COURT_HALF_SIZE || Math.abs(z) > COURT_HALF_SIZE) return null;
+  if (z >= 0) return x >= 0 ? 'rey' : 'rey1';
+  return x >= 0 ? 'mato' : 'rey2';
+}
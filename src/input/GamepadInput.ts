@@ -0,0 +1,70 @@
+import { BUTTON_ACTIONS, type ButtonAction, type GamepadBindings } from './bindings.ts';
+
+// Standard mapping indices of the d-pad
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+/**
+ * Radial deadzone: inside the radius reads as zero, outside is rescaled so the stick
+ * still reaches full speed at the edge without a jump at the threshold.
+ */
+export function applyDeadzone(x: number, y: number, deadzone: number): [number, number] {
+  const mag = Math.hypot(x, y);
+  if (mag <= deadzone) return [0, 0];
+  const scaled = Math.min(1, (mag - deadzone) / (1 - deadzone));
+  return [(x / mag) * scaled, (y / mag) * scaled];
+}
+
+/** Gamepad source, polled once per frame: left stick or d-pad to move, bound buttons fire on press. */
+export default class GamepadInput {
+  private move: [number, number] = [0, 0];
+  private pressed = new Set<number>();
+
+  constructor(
+    private readonly getBindings: () => GamepadBindings,
+    private readonly onButton: (action: ButtonAction) => void
+  ) {}
+
+  public getMove(): [number, number] {
+    return this.move;
+  }
+
+  /** Read the first connected pad. Returns true when the move vector changed. */
+  public poll(): boolean {
+    const pad = Array.from(globalThis.navigator?.getGamepads?.() ?? []).find(p => p?.connected);
+    if (!pad) {
+      this.pressed.clear();
+      return this.setMove([0, 0]);
+    }
+
+    const bindings = this.getBindings();
+    const isDown = (index: number) => !!pad.buttons[index]?.pressed;
+
+    // Stick y points down; the game's screen space points up
+    let move = applyDeadzone(pad.axes[0] ?? 0, -(pad.axes[1] ?? 0), bindings.deadzone);
+    if (move[0] === 0 && move[1] === 0) {
+      const x = (isDown(DPAD_RIGHT) ? 1 : 0) - (isDown(DPAD_LEFT) ? 1 : 0);
+      const y = (isDown(DPAD_UP) ? 1 : 0) - (isDown(DPAD_DOWN) ? 1 : 0);
+      const mag = Math.hypot(x, y);
+      if (mag > 0) move = [x / mag, y / mag];
+    }
+
+    for (const action of BUTTON_ACTIONS) {
+      const index = bindings.buttons[action];
+      if (isDown(index) && !this.pressed.has(index)) this.onButton(action);
+    }
+    this.pressed = new Set(pad.buttons.flatMap((button, index) => (button.pressed ? [index] : [])));
+
+    return this.setMove(move);
+  }
+
+  private setMove(move: [number, number]): boolean {
+    // Two decimals is enough resolution and stops analog noise from counting as a change
+    const rounded: [number, number] = [Math.round(move[0] * 100) / 100, Math.round(move[1] * 100) / 100];
+    if (rounded[0] === this.move[0] && rounded[1] === this.move[1]) return false;
+    this.move = rounded;
+    return true;
+  }
+}
@@ -0,0 +1,82 @@
+import type { InputState } from '../types.ts';
+import { settingsStore } from '../store/settingsStore.ts';
+import KeyboardInput from './KeyboardInput.ts';
+import GamepadInput from './GamepadInput.ts';
+import type { ButtonAction } from './bindings.ts';
+
+// Below this a joystick or stick counts as released
+const ACTIVE_THRESHOLD = 0.05;
+
+/**
+ * Merges the touch joystick, keyboard and gamepad into one screen-space InputState.
+ * Move comes from the first active source in that order; presses from any source are
+ * reported once each through onAction.
+ */
+export default class InputManager {
+  private input: InputState = { move: [0, 0] };
+  private joystick: [number, number] = [0, 0];
+  private enabled = false;
+  private pollFrameId = 0;
+  private readonly keyboard: KeyboardInput;
+  private readonly gamepad: GamepadInput;
+
+  constructor(
+    private readonly onChange: (input: InputState) => void,
+    private readonly onAction: (action: ButtonAction) => void
+  ) {
+    this.keyboard = new KeyboardInput(
+      () => settingsStore.getState().controls.keys,
+      () => this.enabled,
+      () => this.updateMove(),
+      (action) => this.press(action)
+    );
+    this.gamepad = new GamepadInput(
+      () => settingsStore.getState().controls.gamepad,
+      (action) => this.press(action)
+    );
+    this.pollGamepad();
+  }
+
+  /** Ignore everything while menus are up, e.g. in the lobby. */
+  public setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    this.updateMove();
+  }
+
+  public setJoystick(x: number, y: number) {
+    this.joystick = [x, y];
+    this.updateMove();
+  }
+
+  /** A button press from any source: on-screen buttons, keys or the gamepad. */
+  public press(action: ButtonAction) {
+    if (this.enabled) this.onAction(action);
+  }
+
+  public dispose() {
+    cancelAnimationFrame(this.pollFrameId);
+    this.keyboard.dispose();
+  }
+
+  private readonly pollGamepad = () => {
+    this.pollFrameId = requestAnimationFrame(this.pollGamepad);
+    if (this.gamepad.poll()) this.updateMove();
+  };
+
+  private updateMove() {
+    const isActive = ([x, y]: [number, number]) => Math.hypot(x, y) > ACTIVE_THRESHOLD;
+    let move: [number, number] = [0, 0];
+    if (this.enabled) {
+      const source = [this.joystick, this.gamepad.getMove(), this.keyboard.getMove()].find(isActive);
+      if (source) move = [source[0], source[1]];
+    }
+    if (move[0] !== this.input.move[0] || move[1] !== this.input.move[1]) {
+      this.emit({ ...this.input, move });
+    }
+  }
+
+  private emit(input: InputState) {
+    this.input = input;
+    this.onChange(input);
+  }
+}
@@ -0,0 +1,72 @@
+import { BINDABLE_ACTIONS, BUTTON_ACTIONS, type ButtonAction, type KeyBindings } from './bindings.ts';
+
+// Typing into a form field must never move the player
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+/** Keyboard source: held keys become a move vector, bound buttons fire on key down. */
+export default class KeyboardInput {
+  private readonly held = new Set<string>();
+
+  constructor(
+    private readonly getBindings: () => KeyBindings,
+    private readonly isEnabled: () => boolean,
+    private readonly onMoveChange: () => void,
+    private readonly onButton: (action: ButtonAction) => void
+  ) {
+    globalThis.addEventListener('keydown', this.handleKeyDown);
+    globalThis.addEventListener('keyup', this.handleKeyUp);
+    globalThis.addEventListener('blur', this.handleBlur);
+  }
+
+  /** Screen-space move vector from the held direction keys, normalized. */
+  public getMove(): [number, number] {
+    const bindings = this.getBindings();
+    const isHeld = (direction: 'up' | 'down' | 'left' | 'right') =>
+      (bindings[direction] ?? []).some(code => this.held.has(code));
+    const x = (isHeld('right') ? 1 : 0) - (isHeld('left') ? 1 : 0);
+    const y = (isHeld('up') ? 1 : 0) - (isHeld('down') ? 1 : 0);
+    const mag = Math.hypot(x, y);
+    return mag > 0 ? [x / mag, y / mag] : [0, 0];
+  }
+
+  public dispose() {
+    globalThis.removeEventListener('keydown', this.handleKeyDown);
+    globalThis.removeEventListener('keyup', this.handleKeyUp);
+    globalThis.removeEventListener('blur', this.handleBlur);
+  }
+
+  private actionFor(code: string) {
+    const bindings = this.getBindings();
+    return BINDABLE_ACTIONS.find(action => (bindings[action] ?? []).includes(code));
+  }
+
+  private readonly handleKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || isEditable(e.target)) return;
+    const action = this.actionFor(e.code);
+    if (!action) return;
+    // Menus keep their keys (Space on a focused button, arrows in a list) until we're playing
+    if (this.isEnabled()) e.preventDefault();
+
+    if (BUTTON_ACTIONS.includes(action as ButtonAction)) {
+      if (!e.repeat) this.onButton(action as ButtonAction);
+      return;
+    }
+    if (!this.held.has(e.code)) {
+      this.held.add(e.code);
+      this.onMoveChange();
+    }
+  };
+
+  private readonly handleKeyUp = (e: KeyboardEvent) => {
+    if (this.held.delete(e.code)) this.onMoveChange();
+  };
+
+  // Keys released while the window is unfocused never send keyup
+  private readonly handleBlur = () => {
+    if (this.held.size === 0) return;
+    this.held.clear();
+    this.onMoveChange();
+  };
+}
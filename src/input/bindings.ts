@@ -0,0 +1,81 @@
+// Rebindable controls. Keys are stored as KeyboardEvent.code so bindings follow the physical
+// key position regardless of keyboard layout.
+
+export type MoveDirection = 'up' | 'down' | 'left' | 'right';
+export type ButtonAction = 'jump' | 'kick' | 'head';
+export type BindableAction = MoveDirection | ButtonAction;
+
+export const BINDABLE_ACTIONS: BindableAction[] = ['up', 'down', 'left', 'right', 'jump', 'kick', 'head'];
+export const BUTTON_ACTIONS: ButtonAction[] = ['jump', 'kick', 'head'];
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  up: 'Move up',
+  down: 'Move down',
+  left: 'Move left',
+  right: 'Move right',
+  jump: 'Jump',
+  kick: 'Kick',
+  head: 'Header'
+};
+
+// Up to two keys per action: a primary and an alternative
+export type KeyBindings = Record<BindableAction, string[]>;
+
+export const MAX_KEYS_PER_ACTION = 2;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['KeyW', 'ArrowUp'],
+  down: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  jump: ['Space'],
+  kick: ['KeyJ'],
+  head: ['KeyK']
+};
+
+export interface GamepadBindings {
+  // Button indices in the browser's standard gamepad mapping
+  buttons: Record<ButtonAction, number>;
+  // Left stick radius ignored as noise, 0–1
+  deadzone: number;
+}
+
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  buttons: { jump: 0, kick: 2, head: 3 },
+  deadzone: 0.2
+};
+
+// Names for the standard mapping (Xbox layout)
+export const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'View', 'Menu', 'L3', 'R3',
+  'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home'
+];
+
+export const formatKey = (code: string): string => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  switch (code) {
+    case 'ArrowUp': return '↑';
+    case 'ArrowDown': return '↓';
+    case 'ArrowLeft': return '←';
+    case 'ArrowRight': return '→';
+    case 'Space': return 'Space';
+    default: return code.replace(/(Left|Right)$/, ' $1');
+  }
+};
+
+/**
+ * Bind `code` to `action` in the given slot, removing it from any other action so one key
+ * never triggers two things.
+ */
+export function rebindKey(bindings: KeyBindings, action: BindableAction, slot: number, code: string): KeyBindings {
+  const next = {} as KeyBindings;
+  for (const a of BINDABLE_ACTIONS) {
+    next[a] = (bindings[a] ?? []).filter(c => c !== code);
+  }
+  const keys = [...next[action]];
+  if (slot < keys.length) keys[slot] = code;
+  else keys.push(code);
+  next[action] = keys.slice(0, MAX_KEYS_PER_ACTION);
+  return next;
+}
@@ -0,0 +1,180 @@
+import * as Colyseus from 'colyseus.js';
+import type { JoinOptions } from './protocol.ts';
+
+export type ConnectionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'health-checking'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed';
+
+// How to pick a room when joining
+export type JoinTarget =
+  | { mode: 'quick' }
+  | { mode: 'create'; private: boolean }
+  | { mode: 'join'; roomId: string };
+
+// Metadata the server may attach to listed rooms
+export interface RoomMetadata {
+  matchStarted?: boolean;
+  matchEnded?: boolean;
+}
+
+export type RoomListing = Colyseus.RoomAvailable<RoomMetadata>;
+
+export interface ConnectionStatusInfo {
+  status: ConnectionStatus;
+  // Human readable progress or error, shown in the connection overlay
+  detail: string;
+}
+
+const LOCAL_SERVER_URL = 'ws://localhost:2567';
+const PRODUCTION_SERVER_URL = 'wss://reymato-server.onrender.com';
+
+// Render free instances can take close to a minute to wake up
+const HEALTH_TIMEOUT_MS = 90_000;
+const HEALTH_ATTEMPT_TIMEOUT_MS = 8_000;
+const HEALTH_RETRY_DELAY_MS = 3_000;
+
+// Exponential backoff for resuming a dropped session (about 25s in total, within the server's window)
+const RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8_000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Owns the Colyseus client for the configured server and reports connection progress.
+ * The endpoint comes from `?server=` first, then `VITE_SERVER_URL`, then a hostname default.
+ */
+export default class ConnectionManager {
+  public readonly endpoint: string;
+  public readonly client: Colyseus.Client;
+  public onStatusChange: ((info: ConnectionStatusInfo) => void) | null = null;
+
+  private info: ConnectionStatusInfo = { status: 'idle', detail: '' };
+
+  constructor(endpoint = ConnectionManager.resolveEndpoint()) {
+    this.endpoint = endpoint;
+    console.log('Connecting to WebSocket:', this.endpoint);
+    this.client = new Colyseus.Client(this.endpoint);
+  }
+
+  public static resolveEndpoint(): string {
+    const param = new URLSearchParams(globalThis.location.search).get('server');
+    if (param) return ConnectionManager.normalizeUrl(param);
+
+    const fromEnv = import.meta.env.VITE_SERVER_URL;
+    if (fromEnv) return ConnectionManager.normalizeUrl(fromEnv);
+
+    return globalThis.location.hostname === 'localhost' ? LOCAL_SERVER_URL : PRODUCTION_SERVER_URL;
+  }
+
+  // Accept bare hosts and http(s) URLs as well as ws(s) URLs
+  private static normalizeUrl(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    if (trimmed.startsWith('ws://') || trimmed.startsWith('wss://')) return trimmed;
+    if (trimmed.startsWith('http://')) return 'ws://' + trimmed.slice('http://'.length);
+    if (trimmed.startsWith('https://')) return 'wss://' + trimmed.slice('https://'.length);
+    return (globalThis.location.protocol === 'https:' ? 'wss://' : 'ws://') + trimmed;
+  }
+
+  public get status(): ConnectionStatus {
+    return this.info.status;
+  }
+
+  public get healthUrl(): string {
+    return this.endpoint.replace(/^ws/, 'http') + '/health';
+  }
+
+  public setStatus(status: ConnectionStatus, detail = '') {
+    this.info = { status, detail };
+    if (this.onStatusChange) {
+      this.onStatusChange(this.info);
+    }
+  }
+
+  /**
+   * Poll the server's /health endpoint until it answers, waiting out cold starts.
+   * Any non-5xx answer counts as awake (local servers may not expose /health at all).
+   */
+  public async waitForServer(): Promise<void> {
+    const started = Date.now();
+    let attempt = 0;
+
+    while (Date.now() - started < HEALTH_TIMEOUT_MS) {
+      attempt++;
+      const waited = Math.round((Date.now() - started) / 1000);
+      this.setStatus('health-checking', attempt === 1
+        ? 'Checking server…'
+        : `Waking up server… (${waited}s, attempt ${attempt})`);
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), HEALTH_ATTEMPT_TIMEOUT_MS);
+      try {
+        const response = await fetch(this.healthUrl, { signal: controller.signal });
+        if (response.status < 500) {
+          console.log('✅ Server health check passed:', response.status);
+          return;
+        }
+        console.warn('⏳ Server not ready yet:', response.status);
+      } catch (error) {
+        console.warn('⏳ Server health check failed:', error);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      await sleep(HEALTH_RETRY_DELAY_MS);
+    }
+
+    throw new Error(`Server did not respond within ${HEALTH_TIMEOUT_MS / 1000}s`);
+  }
+
+  /** Wake the server if needed, then join a room according to the target. */
+  public async join<T>(roomName: string, target: JoinTarget, options: JoinOptions): Promise<Colyseus.Room<T>> {
+    try {
+      await this.waitForServer();
+      let room: Colyseus.Room<T>;
+      switch (target.mode) {
+        case 'create':
+          this.setStatus('connecting', 'Creating room…');
+          room = await this.client.create<T>(roomName, { ...options, private: target.private });
+          break;
+        case 'join':
+          this.setStatus('connecting', `Joining room ${target.roomId}…`);
+          room = await this.client.joinById<T>(target.roomId, options);
+          break;
+        default:
+          this.setStatus('connecting', 'Joining room…');
+          room = await this.client.joinOrCreate<T>(roomName, options);
+      }
+      this.setStatus('connected');
+      return room;
+    } catch (error) {
+      this.setStatus('failed', error instanceof Error ? error.message : 'Connection failed');
+      throw error;
+    }
+  }
+
+  /** Public rooms currently open for joining (private rooms are not listed by the server). */
+  public listRooms(roomName: string): Promise<RoomListing[]> {
+    return this.client.getAvailableRooms<RoomMetadata>(roomName);
+  }
+
+  /** Resume a dropped session from its reconnection token, retrying with backoff. */
+  public async reconnect<T>(reconnectionToken: string): Promise<Colyseus.Room<T>> {
+    for (let attempt = 1; attempt <= RECONNECT_ATTEMPTS; attempt++) {
+      this.setStatus('reconnecting', `Reconnecting… (attempt ${attempt}/${RECONNECT_ATTEMPTS})`);
+      await sleep(Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      try {
+        const room = await this.client.reconnect<T>(reconnectionToken);
+        this.setStatus('connected');
+        return room;
+      } catch (error) {
+        console.warn(`🔁 Reconnect attempt ${attempt} failed:`, error);
+      }
+    }
+    throw new Error('Could not resume session');
+  }
+}
@@ -0,0 +1,19 @@
+import type { GameStateSchema } from '../types.ts';
+
+/**
+ * The part of a Colyseus room GameScene relies on. A live `Colyseus.Room` satisfies it
+ * as-is; the offline simulation implements it locally.
+ */
+export interface GameRoom {
+  readonly id: string;
+  readonly sessionId: string;
+  readonly reconnectionToken: string;
+  readonly state: GameStateSchema;
+  onStateChange(callback: (state: GameStateSchema) => void): unknown;
+  // '*' receives messages on channels without a dedicated handler
+  onMessage(type: '*', callback: (type: string | number | object, message: unknown) => void): unknown;
+  onMessage(type: string, callback: (message: unknown) => void): unknown;
+  onLeave(callback: (code: number) => void): unknown;
+  send(type: string, message?: unknown): void;
+  leave(consented?: boolean): Promise<number>;
+}
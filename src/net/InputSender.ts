@@ -0,0 +1,38 @@
+// Movement is sent only when it changes, plus a periodic heartbeat so the server keeps
+// acknowledging (lastInputSeq) and a lost packet can't leave us running forever
+
+const HEARTBEAT_MS = 500;
+// Move components snap to 1/32 steps: plenty for direction and speed, and small jitter
+// doesn't count as a change
+const MOVE_STEPS = 32;
+
+const quantize = (n: number) => Math.round(n * MOVE_STEPS) / MOVE_STEPS || 0;
+
+export function quantizeMove([x, y]: [number, number]): [number, number] {
+  const mag = Math.hypot(x, y);
+  const scale = mag > 1 ? 1 / mag : 1;
+  return [quantize(x * scale), quantize(y * scale)];
+}
+
+/** Decides when a move needs to go out. */
+export default class InputSender {
+  private lastMove: [number, number] | null = null;
+  private lastSentAt = -Infinity;
+
+  public shouldSend(move: [number, number], now = performance.now()): boolean {
+    const last = this.lastMove;
+    const changed = !last || last[0] !== move[0] || last[1] !== move[1];
+    return changed || now - this.lastSentAt >= HEARTBEAT_MS;
+  }
+
+  public markSent(move: [number, number], now = performance.now()) {
+    this.lastMove = [move[0], move[1]];
+    this.lastSentAt = now;
+  }
+
+  /** Forget what was sent, so the next move goes out immediately. */
+  public reset() {
+    this.lastMove = null;
+    this.lastSentAt = -Infinity;
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { PLAYER_SPEED } from '../game/constants.ts';
+import type { PlayerState } from '../types.ts';
+import LocalPlayerPredictor from './LocalPrediction.ts';
+import InputSender, { quantizeMove } from './InputSender.ts';
+
+const FRAME_MS = 1000 / 60;
+const INPUT_TICK_MS = 1000 / 30;
+const PATCH_MS = 50;
+
+const playerState = (x: number, z: number, lastInputSeq: number): PlayerState => ({
+  id: 'me', nickname: 'Me', color: '#ffffff', role: 'rey', active: true,
+  x, y: 0, z, rotY: 0, jumping: false, vx: 0, vz: 0, timeAsRey: 0, lastInputSeq
+});
+
+/**
+ * Plays a stick pattern through the predictor against a model server: moves are sent only
+ * when they change (plus the heartbeat), the server keeps applying the last move it
+ * received, and both directions have `latencyMs` of delay. Returns the largest distance
+ * between the prediction and where our inputs actually put us.
+ */
+const runSession = (stick: (t: number) => [number, number], durationMs: number, latencyMs: number) => {
+  const predictor = new LocalPlayerPredictor();
+  const sender = new InputSender();
+  const toServer: Array<{ at: number; seq: number; move: [number, number] }> = [];
+  const toClient: Array<{ at: number; state: PlayerState }> = [];
+  const server = { x: 0, z: 0, move: [0, 0] as [number, number], seq: 0 };
+  const intended = { x: 0, z: 0 };
+  let nextTick = 0;
+  let nextPatch = 0;
+  let maxError = 0;
+
+  predictor.reconcile(playerState(0, 0, 0), 0);
+  for (let now = FRAME_MS; now <= durationMs; now += FRAME_MS) {
+    const dt = FRAME_MS / 1000;
+
+    // Server: apply what has arrived, move on the last move received, publish patches
+    while (toServer.length && toServer[0].at <= now) {
+      const message = toServer.shift()!;
+      server.move = message.move;
+      server.seq = message.seq;
+    }
+    server.x += server.move[0] * PLAYER_SPEED * dt;
+    server.z += server.move[1] * PLAYER_SPEED * dt;
+    if (now >= nextPatch) {
+      toClient.push({ at: now + latencyMs, state: playerState(server.x, server.z, server.seq) });
+      nextPatch += PATCH_MS;
+    }
+
+    // Client: render frame, then the fixed-rate input tick
+    const move = quantizeMove(stick(now));
+    predictor.step({ move }, dt, now);
+    intended.x += move[0] * PLAYER_SPEED * dt;
+    intended.z += move[1] * PLAYER_SPEED * dt;
+    if (now >= nextTick) {
+      if (sender.shouldSend(move, now)) {
+        toServer.push({ at: now + latencyMs, seq: predictor.commit(now), move });
+        sender.markSent(move, now);
+      }
+      nextTick += INPUT_TICK_MS;
+    }
+    while (toClient.length && toClient[0].at <= now) {
+      predictor.reconcile(toClient.shift()!.state, now);
+      // Drop the visual blend so we measure the prediction itself
+      predictor.smooth(10);
+      const predicted = predictor.getPosition();
+      maxError = Math.max(maxError, Math.hypot(predicted.x - intended.x, predicted.z - intended.z));
+    }
+  }
+  return maxError;
+};
+
+describe('LocalPlayerPredictor', () => {
+  it.each([20, 50, 100])('stays on track at quarter stick with %i ms latency', (latencyMs) => {
+    const stick = (t: number): [number, number] => t < 1500 ? [0.25, 0] : [0, -0.25];
+    expect(runSession(stick, 3000, latencyMs)).toBeLessThan(0.15);
+  });
+
+  it('stays on track at full stick while turning', () => {
+    const stick = (t: number): [number, number] => [Math.cos(t / 400), Math.sin(t / 400)];
+    expect(runSession(stick, 3000, 50)).toBeLessThan(0.5);
+  });
+
+  it('stays on track when the stick is held and released', () => {
+    // Right, rest, left, rest: back and forth so the court edge never stops us
+    const pattern: Array<[number, number]> = [[1, 0], [0, 0], [-1, 0], [0, 0]];
+    const stick = (t: number) => pattern[Math.floor(t / 700) % pattern.length];
+    expect(runSession(stick, 4000, 50)).toBeLessThan(0.5);
+  });
+});
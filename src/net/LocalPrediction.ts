@@ -0,0 +1,230 @@
+import {
+  COURT_HALF_SIZE,
+  GRAVITY,
+  PLAYER_JUMP_VELOCITY,
+  PLAYER_RADIUS,
+  PLAYER_SPEED
+} from '../game/constants.ts';
+import type { InputState, PlayerState } from '../types.ts';
+
+interface PredictedState {
+  x: number;
+  y: number;
+  z: number;
+  vy: number;
+  grounded: boolean;
+}
+
+// A run of frames simulated with the same input under one sequence number
+interface InputSegment {
+  seq: number;
+  move: [number, number];
+  jump: boolean;
+  dt: number;
+  // Client time the first frame started at
+  startedAt: number;
+}
+
+const SNAP_DISTANCE = 3;          // Larger errors (e.g. role rotation teleports) snap instantly
+const CORRECTION_RATE = 10;       // How fast visual error decays, per second
+const FALLBACK_LATENCY_MS = 150;  // Assumed round trip until acknowledgements give a measurement
+const RTT_SAMPLES = 8;            // Acknowledgements the round trip is measured over
+const MAX_PENDING = 256;          // Safety cap if acknowledgements stop arriving
+
+/**
+ * Client-side prediction for the local player. Inputs are applied immediately with the
+ * same movement rules and court bounds as the server and remembered under a sequence
+ * number. When an authoritative PlayerState arrives, acknowledged inputs are dropped and
+ * the rest are replayed on top of it; the difference to what was on screen is blended out
+ * over a few frames instead of snapping.
+ *
+ * Unchanged moves aren't resent, and the server keeps applying the last move it received,
+ * so its state already covers everything we simulated up to one round trip ago, acknowledged
+ * or not. Only the frames since then are replayed.
+ */
+export default class LocalPlayerPredictor {
+  private state: PredictedState | null = null;
+  private readonly pending: InputSegment[] = [];
+  private currentSeq = 1;
+  private jumpQueued = false;
+  private readonly correction = { x: 0, y: 0, z: 0 };
+
+  // When each sent seq went out, to time its acknowledgement
+  private readonly sentTimes = new Map<number, number>();
+  private readonly rttSamples: number[] = [];
+
+  // Previous authoritative height, used to estimate vertical speed mid-jump
+  private lastServerY = 0;
+  private lastServerTime = 0;
+
+  public get active(): boolean {
+    return this.state !== null;
+  }
+
+  /** Sequence number the input currently being simulated will be sent under. */
+  public get pendingSeq(): number {
+    return this.currentSeq;
+  }
+
+  /** Apply a jump press on the next step. */
+  public queueJump() {
+    this.jumpQueued = true;
+  }
+
+  /** Advance the prediction by one render frame. */
+  public step(input: InputState, dt: number, now = performance.now()) {
+    if (!this.state) return;
+    const jump = this.jumpQueued;
+    this.jumpQueued = false;
+
+    // A jump gets its own segment so replaying it can't re-trigger on landing
+    const last = this.pending[this.pending.length - 1];
+    if (
+      last && last.seq === this.currentSeq && !jump && !last.jump &&
+      last.move[0] === input.move[0] && last.move[1] === input.move[1]
+    ) {
+      last.dt += dt;
+    } else {
+      this.pending.push({ seq: this.currentSeq, move: [input.move[0], input.move[1]], jump, dt, startedAt: now - dt * 1000 });
+      if (this.pending.length > MAX_PENDING) this.pending.shift();
+    }
+
+    this.simulate(this.state, input.move, jump, dt);
+  }
+
+  /** Close the current sequence number; returns the seq to tag the outgoing input with. */
+  public commit(now = performance.now()): number {
+    const seq = this.currentSeq;
+    this.sentTimes.set(seq, now);
+    if (this.sentTimes.size > MAX_PENDING) this.sentTimes.delete(this.sentTimes.keys().next().value!);
+    this.currentSeq++;
+    return seq;
+  }
+
+  /** Rebase the prediction on the authoritative state and replay unacknowledged inputs. */
+  public reconcile(server: PlayerState, now = performance.now()) {
+    if (!server.active || server.role === 'queue') {
+      this.reset();
+      return;
+    }
+
+    const before = this.state ? this.getPosition() : null;
+
+    // Estimate vertical speed from consecutive patches since PlayerState has no vy
+    const patchDt = (now - this.lastServerTime) / 1000;
+    let vy = patchDt > 0 && patchDt < 0.5 ? (server.y - this.lastServerY) / patchDt : 0;
+    const grounded = !server.jumping && server.y <= 0.01;
+    if (grounded) vy = 0;
+    this.lastServerY = server.y;
+    this.lastServerTime = now;
+
+    // Drop everything the server has already applied: acknowledged inputs, and frames old
+    // enough that the server has been continuing the same move through them
+    if (typeof server.lastInputSeq === 'number') {
+      const ack = server.lastInputSeq;
+      this.measureRoundTrip(ack, now);
+      while (this.pending.length && this.pending[0].seq <= ack) this.pending.shift();
+    }
+    this.dropFramesBefore(now - this.roundTrip);
+
+    const state: PredictedState = { x: server.x, y: server.y, z: server.z, vy, grounded };
+    for (const segment of this.pending) {
+      this.simulate(state, segment.move, segment.jump, segment.dt);
+    }
+    this.state = state;
+
+    if (!before) return;
+    const ex = before.x - state.x;
+    const ey = before.y - state.y;
+    const ez = before.z - state.z;
+    if (Math.hypot(ex, ey, ez) > SNAP_DISTANCE) {
+      this.correction.x = this.correction.y = this.correction.z = 0;
+    } else {
+      this.correction.x = ex;
+      this.correction.y = ey;
+      this.correction.z = ez;
+    }
+  }
+
+  /** Decay the visual correction offset; call once per render frame. */
+  public smooth(dt: number) {
+    const k = Math.exp(-CORRECTION_RATE * dt);
+    this.correction.x *= k;
+    this.correction.y *= k;
+    this.correction.z *= k;
+  }
+
+  /** Position to render: predicted state plus the remaining visual correction. */
+  public getPosition(): { x: number; y: number; z: number } {
+    const s = this.state!;
+    return {
+      x: s.x + this.correction.x,
+      y: s.y + this.correction.y,
+      z: s.z + this.correction.z
+    };
+  }
+
+  public reset() {
+    this.state = null;
+    this.jumpQueued = false;
+    this.pending.length = 0;
+    this.sentTimes.clear();
+    this.correction.x = this.correction.y = this.correction.z = 0;
+  }
+
+  // The fastest recent acknowledgement; slower ones also waited for the next patch
+  private get roundTrip(): number {
+    return this.rttSamples.length ? Math.min(...this.rttSamples) : FALLBACK_LATENCY_MS;
+  }
+
+  private measureRoundTrip(ack: number, now: number) {
+    const sentAt = this.sentTimes.get(ack);
+    if (sentAt === undefined) return;
+    this.rttSamples.push(now - sentAt);
+    if (this.rttSamples.length > RTT_SAMPLES) this.rttSamples.shift();
+    for (const seq of this.sentTimes.keys()) {
+      if (seq <= ack) this.sentTimes.delete(seq);
+    }
+  }
+
+  private dropFramesBefore(cutoff: number) {
+    while (this.pending.length) {
+      const segment = this.pending[0];
+      const endsAt = segment.startedAt + segment.dt * 1000;
+      if (endsAt <= cutoff) {
+        this.pending.shift();
+        continue;
+      }
+      if (segment.startedAt < cutoff) {
+        // The server has the start of this run, jump included
+        segment.dt = (endsAt - cutoff) / 1000;
+        segment.startedAt = cutoff;
+        segment.jump = false;
+      }
+      return;
+    }
+  }
+
+  private simulate(state: PredictedState, move: [number, number], jump: boolean, dt: number) {
+    state.x += move[0] * PLAYER_SPEED * dt;
+    state.z += move[1] * PLAYER_SPEED * dt;
+
+    const limit = COURT_HALF_SIZE - PLAYER_RADIUS;
+    state.x = Math.max(-limit, Math.min(limit, state.x));
+    state.z = Math.max(-limit, Math.min(limit, state.z));
+
+    if (jump && state.grounded) {
+      state.vy = PLAYER_JUMP_VELOCITY;
+      state.grounded = false;
+    }
+    if (!state.grounded) {
+      state.vy -= GRAVITY * dt;
+      state.y += state.vy * dt;
+      if (state.y <= 0) {
+        state.y = 0;
+        state.vy = 0;
+        state.grounded = true;
+      }
+    }
+  }
+}
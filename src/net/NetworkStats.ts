@@ -0,0 +1,67 @@
+import type * as Colyseus from 'colyseus.js';
+
+const byteLength = (data: unknown): number => {
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (ArrayBuffer.isView(data)) return data.byteLength;
+  if (Array.isArray(data)) return data.length;
+  if (typeof data === 'string') return data.length;
+  if (data instanceof Blob) return data.size;
+  return 0;
+};
+
+export interface NetworkRates {
+  sentBytesPerSecond: number;
+  receivedBytesPerSecond: number;
+  inputsPerSecond: number;
+}
+
+/**
+ * Counts bytes going over a room's socket in both directions, measured on the wire
+ * after Colyseus has encoded them.
+ */
+export default class NetworkStats {
+  private sentBytes = 0;
+  private receivedBytes = 0;
+  private inputs = 0;
+  private lastSampleAt = performance.now();
+
+  /** Start counting traffic for a room. Returns a function that stops counting. */
+  public attach(room: Colyseus.Room): () => void {
+    const connection = room.connection;
+    const send = connection.send;
+    connection.send = (data) => {
+      this.sentBytes += byteLength(data);
+      send.call(connection, data);
+    };
+
+    // The browser transport exposes its WebSocket; other transports only get send counted
+    const transport = connection.transport as { ws?: WebSocket };
+    const ws = transport.ws;
+    const onMessage = (event: MessageEvent) => {
+      this.receivedBytes += byteLength(event.data);
+    };
+    ws?.addEventListener?.('message', onMessage);
+
+    return () => {
+      connection.send = send;
+      ws?.removeEventListener?.('message', onMessage);
+    };
+  }
+
+  public recordInput() {
+    this.inputs++;
+  }
+
+  /** Rates since the previous sample; resets the counters. */
+  public sample(now = performance.now()): NetworkRates {
+    const seconds = Math.max(0.001, (now - this.lastSampleAt) / 1000);
+    const rates = {
+      sentBytesPerSecond: Math.round(this.sentBytes / seconds),
+      receivedBytesPerSecond: Math.round(this.receivedBytes / seconds),
+      inputsPerSecond: Math.round(this.inputs / seconds)
+    };
+    this.sentBytes = this.receivedBytes = this.inputs = 0;
+    this.lastSampleAt = now;
+    return rates;
+  }
+}
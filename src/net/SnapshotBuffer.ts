@@ -0,0 +1,149 @@
+import { BALL_RADIUS } from '../game/constants.ts';
+import type { GameStateSchema } from '../types.ts';
+
+export interface PlayerSample {
+  x: number;
+  y: number;
+  z: number;
+  rotY: number;
+  jumping: boolean;
+  vx: number;
+  vz: number;
+}
+
+export interface BallSample {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+interface Snapshot {
+  time: number;
+  players: Map<string, PlayerSample>;
+  ball: BallSample;
+}
+
+export interface InterpolatedFrame {
+  players: Map<string, PlayerSample>;
+  ball: BallSample;
+  // True when the ball is projected past the newest snapshot (late patch)
+  extrapolated: boolean;
+}
+
+const MAX_BUFFER_MS = 1000;  // Keep about a second of history
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Interpolate angles along the shortest arc so players don't spin around at ±PI
+const lerpAngle = (a: number, b: number, t: number) => {
+  let diff = (b - a) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return a + diff * t;
+};
+
+/**
+ * Timestamped buffer of room snapshots. Remote entities are rendered `delayMs` in the
+ * past and interpolated between the two surrounding snapshots, which hides the patch
+ * rate. When a patch is late the ball is extrapolated from its velocity for a short while.
+ */
+export default class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+
+  constructor(
+    public delayMs = 100,
+    public maxExtrapolationMs = 250
+  ) {}
+
+  public push(state: GameStateSchema, time = performance.now()) {
+    // Colyseus mutates the same state object in place, so copy the values we need
+    const players = new Map<string, PlayerSample>();
+    for (const [id, p] of state.players) {
+      players.set(id, { x: p.x, y: p.y, z: p.z, rotY: p.rotY, jumping: p.jumping, vx: p.vx, vz: p.vz });
+    }
+    const b = state.ball;
+    const ball: BallSample = b
+      ? { x: b.x, y: b.y, z: b.z, vx: b.vx, vy: b.vy, vz: b.vz }
+      : { x: 0, y: 2, z: 0, vx: 0, vy: 0, vz: 0 };
+
+    this.snapshots.push({ time, players, ball });
+
+    // Drop old snapshots, but always keep a pair to interpolate between
+    while (this.snapshots.length > 2 && this.snapshots[0].time < time - MAX_BUFFER_MS) {
+      this.snapshots.shift();
+    }
+  }
+
+  public sample(now = performance.now()): InterpolatedFrame | null {
+    const count = this.snapshots.length;
+    if (count === 0) return null;
+
+    const renderTime = now - this.delayMs;
+    const first = this.snapshots[0];
+    const last = this.snapshots[count - 1];
+
+    if (renderTime >= last.time) {
+      return this.extrapolate(last, renderTime);
+    }
+    if (renderTime <= first.time) {
+      return { players: new Map(first.players), ball: { ...first.ball }, extrapolated: false };
+    }
+
+    // Find the pair of snapshots surrounding renderTime
+    let i = count - 2;
+    while (i > 0 && this.snapshots[i].time > renderTime) i--;
+    const a = this.snapshots[i];
+    const b = this.snapshots[i + 1];
+    const span = b.time - a.time;
+    const t = span > 0 ? (renderTime - a.time) / span : 1;
+
+    const players = new Map<string, PlayerSample>();
+    for (const [id, pb] of b.players) {
+      const pa = a.players.get(id);
+      if (!pa) {
+        players.set(id, { ...pb });
+        continue;
+      }
+      players.set(id, {
+        x: lerp(pa.x, pb.x, t),
+        y: lerp(pa.y, pb.y, t),
+        z: lerp(pa.z, pb.z, t),
+        rotY: lerpAngle(pa.rotY, pb.rotY, t),
+        jumping: t < 0.5 ? pa.jumping : pb.jumping,
+        vx: lerp(pa.vx, pb.vx, t),
+        vz: lerp(pa.vz, pb.vz, t)
+      });
+    }
+
+    const ball: BallSample = {
+      x: lerp(a.ball.x, b.ball.x, t),
+      y: lerp(a.ball.y, b.ball.y, t),
+      z: lerp(a.ball.z, b.ball.z, t),
+      vx: lerp(a.ball.vx, b.ball.vx, t),
+      vy: lerp(a.ball.vy, b.ball.vy, t),
+      vz: lerp(a.ball.vz, b.ball.vz, t)
+    };
+
+    return { players, ball, extrapolated: false };
+  }
+
+  public clear() {
+    this.snapshots = [];
+  }
+
+  private extrapolate(snapshot: Snapshot, renderTime: number): InterpolatedFrame {
+    // Players hold their last known pose; only the ball is projected forward
+    const dt = Math.min(renderTime - snapshot.time, this.maxExtrapolationMs) / 1000;
+    const b = snapshot.ball;
+    const ball: BallSample = {
+      ...b,
+      x: b.x + b.vx * dt,
+      y: Math.max(BALL_RADIUS, b.y + b.vy * dt),
+      z: b.z + b.vz * dt
+    };
+    return { players: new Map(snapshot.players), ball, extrapolated: dt > 0 };
+  }
+}
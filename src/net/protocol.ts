@@ -0,0 +1,192 @@
+// Message protocol between client and server: discriminated-union types plus runtime
+// validators for everything sent over the room. Keep in sync with the server.
+
+export const COURT_ROLES = ['rey', 'rey1', 'rey2', 'mato'] as const;
+export type CourtRole = typeof COURT_ROLES[number];
+export type Role = CourtRole | 'queue';
+
+export type PlayerAction = 'kick' | 'head' | 'serve';
+
+// One-shot presses, sent as ActionMessages
+export const DISCRETE_ACTIONS = ['jump', 'kick', 'head', 'serve'] as const;
+export type DiscreteAction = typeof DISCRETE_ACTIONS[number];
+
+export interface LeaderboardEntry {
+  // Session id. Nicknames aren't unique, so this is what identifies the player; servers
+  // that don't send it yet get it filled in from the room state on arrival
+  id?: string;
+  nickname: string;
+  timeAsRey: number;
+}
+
+// ---- Inbound: 'event' channel ----
+
+export interface MatchEndEvent {
+  type: 'matchEnd';
+  leaderboard: LeaderboardEntry[];
+}
+
+export interface QuadrantHighlightEvent {
+  type: 'quadrantHighlight';
+  role: CourtRole;
+  color: 'blue' | 'red';
+}
+
+export interface RolesRotatedEvent {
+  type: 'rolesRotated';
+  // Optional explanation from the server; the client infers one when missing
+  reason?: string;
+}
+
+interface GameEventMap {
+  matchEnd: MatchEndEvent;
+  quadrantHighlight: QuadrantHighlightEvent;
+  rolesRotated: RolesRotatedEvent;
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEvent = GameEventMap[GameEventType];
+
+// Handler table keyed by event type; each handler receives the narrowed event
+export type GameEventHandlers = {
+  [K in GameEventType]: (event: GameEventMap[K]) => void;
+};
+
+/** Hand an event to its handler; a missing or mismatched handler fails to compile. */
+export function dispatchGameEvent<K extends GameEventType>(handlers: GameEventHandlers, event: GameEventMap[K] & { type: K }) {
+  handlers[event.type](event);
+}
+
+// ---- Inbound: 'playerAnimation' channel ----
+
+export interface PlayerAnimationMessage {
+  playerId: string;
+  action: 'kick' | 'head';
+}
+
+// ---- Outbound ----
+
+// Options sent when joining a room
+export interface JoinOptions {
+  nickname: string;
+  // Watch without taking a court spot or a place in the queue
+  spectator?: boolean;
+}
+
+// Continuous movement, sent at a fixed rate; the server echoes seq back as lastInputSeq
+export interface InputMessage {
+  type: 'input';
+  seq: number;
+  move: [number, number];
+}
+
+// A single press, sent exactly once
+export interface ActionMessage {
+  type: 'action';
+  // Increases by one per action within a session, so the server can detect gaps and duplicates
+  seq: number;
+  action: DiscreteAction;
+  // Date.now() when the button was pressed
+  clientTime: number;
+  // Movement seq in progress at the press, to order it against 'input' messages
+  inputSeq: number;
+}
+
+// Vote to start another match in the same room once the current one has ended
+export interface RematchMessage {
+  type: 'rematch';
+}
+
+export interface OutboundMessages {
+  input: InputMessage;
+  action: ActionMessage;
+  rematch: RematchMessage;
+}
+
+// ---- Validation ----
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: 'unknown' | 'malformed'; detail: string };
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => typeof v === 'object' && v !== null;
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOneOf = <T extends string>(v: unknown, options: readonly T[]): v is T =>
+  isString(v) && (options as readonly string[]).includes(v);
+const hasOwn = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+export const isCourtRole = (v: unknown): v is CourtRole => isOneOf(v, COURT_ROLES);
+
+const isLeaderboardEntry = (v: unknown): v is LeaderboardEntry =>
+  isObject(v) && (v.id === undefined || isString(v.id)) && isString(v.nickname) && isNumber(v.timeAsRey);
+
+const gameEventValidators: { [K in GameEventType]: (m: Fields) => boolean } = {
+  matchEnd: (m) => Array.isArray(m.leaderboard) && m.leaderboard.every(isLeaderboardEntry),
+  quadrantHighlight: (m) => isCourtRole(m.role) && isOneOf(m.color, ['blue', 'red'] as const),
+  rolesRotated: (m) => m.reason === undefined || isString(m.reason)
+};
+
+const ok = <T>(value: T): ParseResult<T> => ({ ok: true, value });
+const malformed = <T>(detail: string): ParseResult<T> => ({ ok: false, reason: 'malformed', detail });
+
+export function parseGameEvent(raw: unknown): ParseResult<GameEvent> {
+  if (!isObject(raw) || !isString(raw.type)) return malformed('missing type');
+  if (!hasOwn(gameEventValidators, raw.type)) {
+    return { ok: false, reason: 'unknown', detail: raw.type };
+  }
+  const validate = gameEventValidators[raw.type as GameEventType];
+  return validate(raw) ? ok(raw as unknown as GameEvent) : malformed(`invalid ${raw.type} payload`);
+}
+
+export function parsePlayerAnimation(raw: unknown): ParseResult<PlayerAnimationMessage> {
+  if (!isObject(raw)) return malformed('not an object');
+  if (!isString(raw.playerId)) return malformed('missing playerId');
+  if (!isOneOf(raw.action, ['kick', 'head'] as const)) return malformed(`invalid action ${String(raw.action)}`);
+  return ok({ playerId: raw.playerId, action: raw.action });
+}
+
+const isMoveVector = (v: unknown): v is [number, number] =>
+  Array.isArray(v) && v.length === 2 && isNumber(v[0]) && isNumber(v[1]);
+
+const outboundValidators: { [K in keyof OutboundMessages]: (m: unknown) => m is OutboundMessages[K] } = {
+  input: (m): m is InputMessage =>
+    isObject(m) && m.type === 'input' && isNumber(m.seq) && isMoveVector(m.move),
+  action: (m): m is ActionMessage =>
+    isObject(m) && m.type === 'action' && isNumber(m.seq) && isOneOf(m.action, DISCRETE_ACTIONS) &&
+    isNumber(m.clientTime) && isNumber(m.inputSeq),
+  rematch: (m): m is RematchMessage => isObject(m) && m.type === 'rematch'
+};
+
+export function validateOutbound<K extends keyof OutboundMessages>(type: K, message: unknown): message is OutboundMessages[K] {
+  return outboundValidators[type](message);
+}
+
+/**
+ * Counts messages that were dropped because they were unknown or malformed, so protocol
+ * drift between client and server shows up in the console instead of failing silently.
+ */
+export class ProtocolStats {
+  public unknown = 0;
+  public malformed = 0;
+  public rejectedOutbound = 0;
+
+  public recordInbound(channel: string, result: { reason: 'unknown' | 'malformed'; detail: string }, raw: unknown) {
+    if (result.reason === 'unknown') this.unknown++;
+    else this.malformed++;
+    console.warn(`⚠️ Dropped ${result.reason} '${channel}' message (${result.detail}):`, raw,
+      `[unknown: ${this.unknown}, malformed: ${this.malformed}]`);
+  }
+
+  public recordUnknownChannel(channel: string | number, raw: unknown) {
+    this.unknown++;
+    console.warn(`⚠️ Message on unhandled channel '${String(channel)}':`, raw, `[unknown: ${this.unknown}]`);
+  }
+
+  public recordRejectedOutbound(type: string, message: unknown) {
+    this.rejectedOutbound++;
+    console.warn(`⚠️ Refusing to send invalid '${type}' message:`, message, `[rejected: ${this.rejectedOutbound}]`);
+  }
+}
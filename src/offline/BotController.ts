@@ -0,0 +1,173 @@
+import {
+  BALL_RADIUS,
+  HEAD_MAX_HEIGHT,
+  HEAD_MIN_HEIGHT,
+  PLAYER_RADIUS,
+  STRIKE_REACH
+} from '../game/constants.ts';
+import { predictLanding, quadrantAt } from '../game/trajectory.ts';
+import { COURT_ROLES, isCourtRole } from '../net/protocol.ts';
+import type { CourtRole, DiscreteAction } from '../net/protocol.ts';
+import type { GameStateSchema, InputState, PlayerState } from '../types.ts';
+import { QUADRANT_CENTERS } from './ReyMatoSimulation.ts';
+
+export const BOT_DIFFICULTIES = ['easy', 'normal', 'hard'] as const;
+export type BotDifficulty = typeof BOT_DIFFICULTIES[number];
+
+export interface BotProfile {
+  label: string;
+  // Seconds before the bot responds to a new trajectory (a touch or a bounce)
+  reactionTime: number;
+  // Largest error, in radians, on the direction it sends the ball
+  aimError: number;
+  // Largest error, in court units, on where it decides to stand
+  positionError: number;
+  // Fraction of full stick it runs with
+  speed: number;
+  // Goes for the Rey instead of a random quadrant, and jumps for high balls
+  tactical: boolean;
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: { label: 'Easy', reactionTime: 0.45, aimError: 0.5, positionError: 1.2, speed: 0.7, tactical: false },
+  normal: { label: 'Normal', reactionTime: 0.25, aimError: 0.25, positionError: 0.5, speed: 0.9, tactical: false },
+  hard: { label: 'Hard', reactionTime: 0.1, aimError: 0.08, positionError: 0.1, speed: 1, tactical: true }
+};
+
+export const isBotDifficulty = (v: unknown): v is BotDifficulty =>
+  typeof v === 'string' && (BOT_DIFFICULTIES as readonly string[]).includes(v);
+
+export interface BotDecision {
+  // Already in world space (x, z), unlike UI input which is relative to the screen
+  input: InputState;
+  actions: DiscreteAction[];
+}
+
+interface Point {
+  x: number;
+  z: number;
+}
+
+// Distance kept between the player and the spot where it means to strike the ball;
+// inside STRIKE_REACH but clear of the ball so it isn't bumped first
+const STRIKE_STAND = PLAYER_RADIUS + BALL_RADIUS + 0.6;
+// How far past the bounce the ball travels before the strike, in seconds
+const STRIKE_LEAD = 0.15;
+const ARRIVE_DISTANCE = 0.2;
+const STRIKE_COOLDOWN_MS = 350;
+const JUMP_HEADROOM = 1.2;
+
+// Widest angle between the ball's direction of travel and the side we meet it from
+const MAX_SIDE_ANGLE = Math.PI / 3;
+
+const randomIn = (range: number) => (Math.random() * 2 - 1) * range;
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+/**
+ * Drives one player from the room state: waits in its quadrant, runs to meet a ball that
+ * will bounce there and kicks or heads it, depending on its height, towards another
+ * quadrant. The difficulty profile decides how late it reacts, how well it positions
+ * itself and how accurately it aims. Works for any role, including the local player.
+ */
+export default class BotController {
+  private profile: BotProfile;
+  private trajectoryKey = '';
+  private reactAt = 0;
+  private target: Point | null = null;
+  private planned = false;
+  private lastStrikeAt = -Infinity;
+
+  constructor(public readonly playerId: string, difficulty: BotDifficulty = 'normal') {
+    this.profile = BOT_PROFILES[difficulty];
+  }
+
+  public setDifficulty(difficulty: BotDifficulty) {
+    this.profile = BOT_PROFILES[difficulty];
+  }
+
+  public update(state: GameStateSchema, now = performance.now()): BotDecision {
+    const me = state.players.get(this.playerId);
+    if (!me || !isCourtRole(me.role) || !state.matchStarted || state.matchEnded) {
+      this.target = null;
+      return { input: { move: [0, 0] }, actions: [] };
+    }
+
+    // Every touch or bounce is a new trajectory, noticed only after the reaction time
+    const ball = state.ball;
+    const key = `${ball.lastTouchedBy}|${ball.lastBounceTime}|${state.waitingForServe}|${me.role}`;
+    if (key !== this.trajectoryKey) {
+      this.trajectoryKey = key;
+      this.reactAt = now + this.profile.reactionTime * 1000;
+      this.planned = false;
+    }
+    if (!this.planned && now >= this.reactAt) {
+      this.target = this.plan(state, me.role);
+      this.planned = true;
+    }
+
+    return {
+      input: { move: this.target ? this.moveTowards(me, this.target) : [0, 0] },
+      actions: this.chooseActions(state, me, now)
+    };
+  }
+
+  private plan(state: GameStateSchema, role: CourtRole): Point {
+    const home = QUADRANT_CENTERS[role];
+    if (state.waitingForServe) return home;
+
+    const ball = state.ball;
+    const bouncedHere = ball.bounceCount > 0 && ball.lastBounceOnRole === role;
+    const landing = predictLanding(ball);
+    const landsHere = landing !== null && quadrantAt(landing.x, landing.z) === role;
+    if (!bouncedHere && !landsHere) return home;
+
+    // Meet the ball a little after its bounce, from the side opposite where it should go
+    const from = bouncedHere || !landing ? ball : landing;
+    const strike = { x: from.x + ball.vx * STRIKE_LEAD, z: from.z + ball.vz * STRIKE_LEAD };
+    const aimAt = QUADRANT_CENTERS[this.pickTarget(role)];
+    const aim = Math.atan2(aimAt.x - strike.x, aimAt.z - strike.z) + randomIn(this.profile.aimError);
+    // Stay ahead of the ball rather than in its way, so it can't hit us before we play it
+    const travel = Math.atan2(ball.vx, ball.vz);
+    const side = travel + clamp(wrapAngle(aim + Math.PI - travel), -MAX_SIDE_ANGLE, MAX_SIDE_ANGLE);
+    return {
+      x: strike.x + Math.sin(side) * STRIKE_STAND + randomIn(this.profile.positionError),
+      z: strike.z + Math.cos(side) * STRIKE_STAND + randomIn(this.profile.positionError)
+    };
+  }
+
+  // Everyone below the loser moves up, so the Rey is the most rewarding target
+  private pickTarget(role: CourtRole): CourtRole {
+    const others = COURT_ROLES.filter(r => r !== role);
+    if (this.profile.tactical) return role === 'rey' ? 'rey1' : 'rey';
+    return others[Math.floor(Math.random() * others.length)];
+  }
+
+  private moveTowards(me: PlayerState, target: Point): [number, number] {
+    const dx = target.x - me.x;
+    const dz = target.z - me.z;
+    const distance = Math.hypot(dx, dz);
+    if (distance < ARRIVE_DISTANCE) return [0, 0];
+    // Ease off over the last unit so it doesn't overshoot
+    const speed = this.profile.speed * Math.min(1, distance);
+    return [(dx / distance) * speed, (dz / distance) * speed];
+  }
+
+  private chooseActions(state: GameStateSchema, me: PlayerState, now: number): DiscreteAction[] {
+    const ball = state.ball;
+    // The ball must have bounced in our own quadrant before we may play it
+    if (state.waitingForServe || ball.bounceCount === 0 || ball.lastBounceOnRole !== me.role) return [];
+    if (now - this.lastStrikeAt < STRIKE_COOLDOWN_MS) return [];
+    if (Math.hypot(ball.x - me.x, ball.z - me.z) > STRIKE_REACH * 0.95) return [];
+
+    const height = ball.y - me.y;
+    let action: DiscreteAction | null = null;
+    if (height >= HEAD_MIN_HEIGHT && height <= HEAD_MAX_HEIGHT) action = 'head';
+    else if (height < HEAD_MIN_HEIGHT) action = 'kick';
+    else if (this.profile.tactical && !me.jumping && height <= HEAD_MAX_HEIGHT + JUMP_HEADROOM) return ['jump'];
+    if (!action) return [];
+
+    this.lastStrikeAt = now;
+    return [action];
+  }
+}
@@ -0,0 +1,126 @@
+import type { GameRoom } from '../net/GameRoom.ts';
+import { validateOutbound } from '../net/protocol.ts';
+import type { GameStateSchema } from '../types.ts';
+import ReyMatoSimulation from './ReyMatoSimulation.ts';
+import BotController, { type BotDifficulty } from './BotController.ts';
+
+const TICK_RATE = 60;
+const PATCH_EVERY_TICKS = 3;    // ~20 state patches per second, like the server
+const CONSENTED_LEAVE_CODE = 4000;
+
+const BOTS = [
+  { nickname: 'Bot Ana', color: '#e57373' },
+  { nickname: 'Bot Beto', color: '#64b5f6' },
+  { nickname: 'Bot Caro', color: '#81c784' }
+];
+
+export interface LocalRoomOptions {
+  difficulty?: BotDifficulty;
+  color?: string;
+  // Tutorial sandbox: a scripted simulation, bots that only stand on their spot and
+  // the player starting at the bottom, as MATO
+  sandbox?: boolean;
+}
+
+/**
+ * A room that runs the Rey Mato simulation in the browser instead of on a server,
+ * with bots in the other three quadrants. GameScene talks to it exactly like a
+ * Colyseus room.
+ */
+export default class LocalRoom implements GameRoom {
+  public readonly id = 'practice';
+  public readonly sessionId = 'local-player';
+  public readonly reconnectionToken = '';
+
+  // Exposed so the tutorial can script the sandbox directly
+  public readonly simulation: ReyMatoSimulation;
+  private readonly bots: BotController[] = [];
+  private readonly stateListeners: Array<(state: GameStateSchema) => void> = [];
+  private readonly messageListeners = new Map<string, Array<(message: unknown) => void>>();
+  private readonly wildcardListeners: Array<(type: string | number | object, message: unknown) => void> = [];
+  private readonly leaveListeners: Array<(code: number) => void> = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticks = 0;
+
+  constructor(nickname: string, { difficulty = 'normal', color = '#ffd54f', sandbox = false }: LocalRoomOptions = {}) {
+    this.simulation = new ReyMatoSimulation((channel, message) => this.dispatch(channel, message), { scripted: sandbox });
+    // Roles are handed out in join order
+    if (!sandbox) this.simulation.addPlayer(this.sessionId, nickname, color);
+    BOTS.forEach((bot, i) => {
+      const id = `bot-${i + 1}`;
+      this.simulation.addPlayer(id, bot.nickname, bot.color);
+      if (!sandbox) this.bots.push(new BotController(id, difficulty));
+    });
+    if (sandbox) this.simulation.addPlayer(this.sessionId, nickname, color);
+    this.simulation.startMatch();
+    this.timer = setInterval(() => this.tick(), 1000 / TICK_RATE);
+  }
+
+  public get state(): GameStateSchema {
+    return this.simulation.state;
+  }
+
+  public onStateChange(callback: (state: GameStateSchema) => void) {
+    this.stateListeners.push(callback);
+  }
+
+  public onMessage(type: '*', callback: (type: string | number | object, message: unknown) => void): void;
+  public onMessage(type: string, callback: (message: unknown) => void): void;
+  public onMessage(type: string, callback: ((message: unknown) => void) | ((type: string | number | object, message: unknown) => void)) {
+    if (type === '*') {
+      this.wildcardListeners.push(callback as (type: string | number | object, message: unknown) => void);
+      return;
+    }
+    const listeners = this.messageListeners.get(type) ?? [];
+    listeners.push(callback as (message: unknown) => void);
+    this.messageListeners.set(type, listeners);
+  }
+
+  public onLeave(callback: (code: number) => void) {
+    this.leaveListeners.push(callback);
+  }
+
+  public send(type: string, message?: unknown) {
+    if (type === 'input' && validateOutbound('input', message)) {
+      this.simulation.setMove(this.sessionId, message.move, message.seq);
+    } else if (type === 'action' && validateOutbound('action', message)) {
+      this.simulation.performAction(this.sessionId, message.action);
+    } else if (type === 'rematch' && this.state.matchEnded) {
+      this.simulation.startMatch();
+    }
+  }
+
+  public leave(): Promise<number> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.simulation.dispose();
+      for (const listener of this.leaveListeners) listener(CONSENTED_LEAVE_CODE);
+    }
+    return Promise.resolve(CONSENTED_LEAVE_CODE);
+  }
+
+  private tick() {
+    const now = performance.now();
+    for (const bot of this.bots) {
+      const decision = bot.update(this.state, now);
+      this.simulation.setMove(bot.playerId, decision.input.move);
+      for (const action of decision.actions) this.simulation.performAction(bot.playerId, action);
+    }
+    this.simulation.step(1 / TICK_RATE);
+
+    this.ticks++;
+    if (this.ticks % PATCH_EVERY_TICKS === 0) {
+      for (const listener of this.stateListeners) listener(this.state);
+    }
+  }
+
+  private dispatch(channel: string, message: unknown) {
+    const listeners = this.messageListeners.get(channel);
+    if (listeners?.length) {
+      for (const listener of listeners) listener(message);
+    } else {
+      for (const listener of this.wildcardListeners) listener(channel, message);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { GameEvent } from '../net/protocol.ts';
+import ReyMatoSimulation, { QUADRANT_CENTERS } from './ReyMatoSimulation.ts';
+
+const FRAME = 1 / 60;
+
+const scriptedSimulation = () => {
+  const events: GameEvent[] = [];
+  const simulation = new ReyMatoSimulation((channel, message) => {
+    if (channel === 'event') events.push(message as GameEvent);
+  }, { scripted: true });
+  return { simulation, events };
+};
+
+describe('ReyMatoSimulation in scripted mode', () => {
+  it('lets players move while the ball is parked', () => {
+    const { simulation } = scriptedSimulation();
+    simulation.addPlayer('p1', 'One', '#ffffff');
+    simulation.startMatch();
+    simulation.step(FRAME);
+
+    expect(simulation.awaitingFeed).toBe(true);
+    expect(simulation.state.waitingForServe).toBe(false);
+
+    const start = simulation.state.players.get('p1')!.x;
+    simulation.setMove('p1', [1, 0]);
+    for (let i = 0; i < 30; i++) simulation.step(FRAME);
+    expect(simulation.state.players.get('p1')!.x).toBeGreaterThan(start + 1);
+  });
+
+  it('keeps a fed ball on its given path instead of serving it', () => {
+    const { simulation, events } = scriptedSimulation();
+    simulation.startMatch();
+    simulation.step(FRAME);
+
+    const from = QUADRANT_CENTERS.rey;
+    const target = { x: 2, z: -5 };
+    const flightTime = 0.9;
+    simulation.feedBall(target, flightTime);
+    expect(simulation.awaitingFeed).toBe(false);
+    expect(simulation.state.waitingForServe).toBe(false);
+
+    simulation.step(FRAME);
+    const ball = simulation.state.ball;
+    expect(ball.vx).toBeCloseTo((target.x - from.x) / flightTime, 1);
+    expect(ball.vz).toBeCloseTo((target.z - from.z) / flightTime, 1);
+    expect(ball.x).toBeCloseTo(from.x + ball.vx * FRAME, 1);
+    expect(ball.z).toBeCloseTo(from.z + ball.vz * FRAME, 1);
+
+    // It comes down on the target rather than wherever a serve would have sent it
+    for (let i = 0; i < 120 && events.length === 0; i++) simulation.step(FRAME);
+    expect(events[0]).toEqual({ type: 'quadrantHighlight', role: 'mato', color: 'blue' });
+    expect(simulation.state.ball.x).toBeCloseTo(target.x, 0);
+    expect(simulation.state.ball.z).toBeCloseTo(target.z, 0);
+  });
+});
@@ -0,0 +1,539 @@
+import * as CANNON from 'cannon-es';
+import {
+  BALL_RADIUS,
+  COURT_HALF_SIZE,
+  GRAVITY,
+  HEAD_MAX_HEIGHT,
+  HEAD_MIN_HEIGHT,
+  KICK_MAX_HEIGHT,
+  PLAYER_JUMP_VELOCITY,
+  PLAYER_RADIUS,
+  PLAYER_SPEED,
+  STRIKE_REACH
+} from '../game/constants.ts';
+import { quadrantAt } from '../game/trajectory.ts';
+import { COURT_ROLES, isCourtRole } from '../net/protocol.ts';
+import type { CourtRole, DiscreteAction, GameEvent, PlayerAnimationMessage } from '../net/protocol.ts';
+import type { GameStateSchema, PlayerState } from '../types.ts';
+
+export type SimulationChannel = 'event' | 'playerAnimation';
+
+interface SimPlayer {
+  state: PlayerState;
+  move: [number, number];
+  vy: number;
+  body: CANNON.Body;
+  // Simulation time of the last kick or header, for the cooldown
+  lastStrikeAt: number;
+}
+
+export interface SimulationOptions {
+  matchDuration?: number;
+  // Sandbox for the tutorial: no serves and no match clock; the ball rests until fed
+  scripted?: boolean;
+}
+
+interface PendingFault {
+  role: CourtRole;
+  reason: string;
+  // Simulation time at which roles rotate
+  at: number;
+}
+
+const FIXED_STEP = 1 / 60;
+const DEFAULT_MATCH_DURATION = 300;
+
+const SERVE_DELAY = 1.5;        // seconds the ball hangs over the Rey before a serve
+const ROTATION_DELAY = 1;       // seconds between a fault and the rotation, so it can be seen
+const SERVE_HEIGHT = 3.5;      // clear of the Rey's head
+const SERVE_FLIGHT_TIME = 1.1;
+
+const STRIKE_COOLDOWN = 0.3;
+const KICK_SPEED = 10;
+const KICK_LIFT = 9;
+const HEAD_SPEED = 9;
+const HEAD_LIFT = 6;
+
+const BOUNCE_MIN_IMPACT = 1;    // slower contacts are rolling, not bouncing
+const BOUNCE_MIN_INTERVAL = 0.15;
+const DEAD_BALL_TIME = 0.8;     // seconds rolling on the ground before the rally is over
+
+const QUADRANT_OFFSET = COURT_HALF_SIZE / 2;
+
+/** Where each court role stands at the start of a rally. */
+export const QUADRANT_CENTERS: Record<CourtRole, { x: number; z: number }> = {
+  rey: { x: QUADRANT_OFFSET, z: QUADRANT_OFFSET },
+  rey1: { x: -QUADRANT_OFFSET, z: QUADRANT_OFFSET },
+  rey2: { x: -QUADRANT_OFFSET, z: -QUADRANT_OFFSET },
+  mato: { x: QUADRANT_OFFSET, z: -QUADRANT_OFFSET }
+};
+
+/**
+ * Local stand-in for the Rey Mato server room: cannon-es ball physics, the four quadrants,
+ * bounce and fault rules, role rotation and the match clock. The state object mirrors the
+ * server schema and is mutated in place; events go out through `emit` on the same channels
+ * the server uses.
+ */
+export default class ReyMatoSimulation {
+  public readonly state: GameStateSchema;
+
+  private readonly world: CANNON.World;
+  private readonly ground: CANNON.Body;
+  private readonly ballBody: CANNON.Body;
+  private readonly playerMaterial = new CANNON.Material('player');
+  private readonly players = new Map<string, SimPlayer>();
+  private readonly bodyOwners = new Map<number, string>();
+
+  private time = 0;
+  private serveAt = 0;
+  private pendingFault: PendingFault | null = null;
+  private bouncedSinceTouch = false;
+  private lastBounceAt = -Infinity;
+  private groundedSince: number | null = null;
+  private readonly scripted: boolean;
+  // Scripted mode only: the ball rests in the middle of the court until fed
+  private parked = false;
+  // Scripted mode can end rallies on a fault without changing anyone's role
+  public rotateOnFault = true;
+  // Contacts reported during a physics step, handled once the step is done
+  private contacts: Array<{ body: CANNON.Body; impact: number }> = [];
+
+  constructor(
+    private readonly emit: (channel: SimulationChannel, message: GameEvent | PlayerAnimationMessage) => void,
+    { matchDuration = DEFAULT_MATCH_DURATION, scripted = false }: SimulationOptions = {}
+  ) {
+    this.scripted = scripted;
+    this.state = {
+      players: new Map(),
+      ball: {
+        x: 0, y: SERVE_HEIGHT, z: 0, vx: 0, vy: 0, vz: 0,
+        lastTouchedBy: '', lastBounceOnRole: '', lastBounceTime: 0, bounceCount: 0
+      },
+      currentServer: '',
+      queue: [],
+      elapsed: 0,
+      matchDuration,
+      matchStarted: false,
+      matchEnded: false,
+      waitingForServe: true
+    };
+
+    this.world = new CANNON.World({ gravity: new CANNON.Vec3(0, -GRAVITY, 0) });
+    const ballMaterial = new CANNON.Material('ball');
+    const groundMaterial = new CANNON.Material('ground');
+    this.world.addContactMaterial(new CANNON.ContactMaterial(ballMaterial, groundMaterial, { restitution: 0.7, friction: 0.3 }));
+    this.world.addContactMaterial(new CANNON.ContactMaterial(ballMaterial, this.playerMaterial, { restitution: 0.5, friction: 0.1 }));
+
+    this.ground = new CANNON.Body({ type: CANNON.Body.STATIC, shape: new CANNON.Plane(), material: groundMaterial });
+    this.ground.quaternion.setFromEuler(-Math.PI / 2, 0, 0);
+    this.world.addBody(this.ground);
+
+    this.ballBody = new CANNON.Body({
+      mass: 0.45,
+      shape: new CANNON.Sphere(BALL_RADIUS),
+      material: ballMaterial,
+      linearDamping: 0.05,
+      angularDamping: 0.3
+    });
+    this.ballBody.addEventListener('collide', (e: { body: CANNON.Body; contact: CANNON.ContactEquation }) => {
+      this.contacts.push({ body: e.body, impact: Math.abs(e.contact.getImpactVelocityAlongNormal()) });
+    });
+    this.world.addBody(this.ballBody);
+  }
+
+  /** Add a player to the first free court role, or to the back of the queue. */
+  public addPlayer(id: string, nickname: string, color: string) {
+    const taken = new Set(Array.from(this.players.values(), p => p.state.role));
+    const role = COURT_ROLES.find(r => !taken.has(r)) ?? 'queue';
+
+    const body = new CANNON.Body({ type: CANNON.Body.KINEMATIC, material: this.playerMaterial });
+    // Two stacked spheres roughly cover legs and torso
+    body.addShape(new CANNON.Sphere(PLAYER_RADIUS), new CANNON.Vec3(0, PLAYER_RADIUS, 0));
+    body.addShape(new CANNON.Sphere(PLAYER_RADIUS), new CANNON.Vec3(0, PLAYER_RADIUS * 2.5, 0));
+    this.world.addBody(body);
+    this.bodyOwners.set(body.id, id);
+
+    const state: PlayerState = {
+      id, nickname, role, color,
+      x: 0, y: 0, z: 0, rotY: 0,
+      active: role !== 'queue',
+      timeAsRey: 0,
+      jumping: false,
+      vx: 0, vz: 0,
+      lastInputSeq: 0
+    };
+    this.players.set(id, { state, move: [0, 0], vy: 0, body, lastStrikeAt: -Infinity });
+    this.state.players.set(id, state);
+    if (role === 'queue') this.state.queue.push(id);
+    this.placePlayer(this.players.get(id)!);
+  }
+
+  public removePlayer(id: string) {
+    const player = this.players.get(id);
+    if (!player) return;
+    this.world.removeBody(player.body);
+    this.bodyOwners.delete(player.body.id);
+    this.players.delete(id);
+    this.state.players.delete(id);
+    this.state.queue = this.state.queue.filter(q => q !== id);
+  }
+
+  /** Movement in world space (x, z), as the server receives it. */
+  public setMove(id: string, move: [number, number], seq?: number) {
+    const player = this.players.get(id);
+    if (!player) return;
+    const length = Math.hypot(move[0], move[1]);
+    const scale = length > 1 ? 1 / length : 1;
+    player.move = [move[0] * scale, move[1] * scale];
+    if (seq !== undefined) player.state.lastInputSeq = seq;
+  }
+
+  public performAction(id: string, action: DiscreteAction) {
+    const player = this.players.get(id);
+    if (!player || !isCourtRole(player.state.role)) return;
+
+    if (action === 'jump') {
+      if (!player.state.jumping) {
+        player.vy = PLAYER_JUMP_VELOCITY;
+        player.state.jumping = true;
+      }
+      return;
+    }
+    // Serving is automatic
+    if (action === 'serve') return;
+    if (this.time - player.lastStrikeAt < STRIKE_COOLDOWN) return;
+    player.lastStrikeAt = this.time;
+    this.emit('playerAnimation', { playerId: id, action });
+
+    if (this.state.waitingForServe || this.parked || this.pendingFault || this.state.matchEnded) return;
+    const ball = this.state.ball;
+    const p = player.state;
+    const dx = ball.x - p.x;
+    const dz = ball.z - p.z;
+    const distance = Math.hypot(dx, dz);
+    const height = ball.y - p.y;
+    // The ball has to bounce in your own quadrant before you can play it
+    if (ball.bounceCount === 0 || ball.lastBounceOnRole !== p.role) return;
+    if (distance > STRIKE_REACH) return;
+    if (action === 'kick' && height > KICK_MAX_HEIGHT) return;
+    if (action === 'head' && (height < HEAD_MIN_HEIGHT || height > HEAD_MAX_HEIGHT)) return;
+
+    // Strike away from the player, or the way they face when standing on the ball
+    const dirX = distance > 0.01 ? dx / distance : Math.sin(p.rotY);
+    const dirZ = distance > 0.01 ? dz / distance : Math.cos(p.rotY);
+    const speed = action === 'kick' ? KICK_SPEED : HEAD_SPEED;
+    const lift = action === 'kick' ? KICK_LIFT : HEAD_LIFT;
+    this.ballBody.velocity.set(dirX * speed, lift, dirZ * speed);
+    this.touch(id);
+  }
+
+  public startMatch() {
+    this.state.matchStarted = true;
+    this.state.matchEnded = false;
+    this.state.elapsed = 0;
+    for (const player of this.players.values()) player.state.timeAsRey = 0;
+    if (this.scripted) this.park();
+    else this.prepareServe();
+  }
+
+  /** Scripted mode: waiting for the next `feedBall`. */
+  public get awaitingFeed(): boolean {
+    return this.parked;
+  }
+
+  /** Scripted mode: throw the ball from the Rey's serving spot to land on `target` after `flightTime` seconds. */
+  public feedBall(target: { x: number; z: number }, flightTime: number) {
+    const from = QUADRANT_CENTERS.rey;
+    this.parked = false;
+    // Nothing is served in scripted mode; the feed is the ball in play
+    if (this.scripted) this.state.waitingForServe = false;
+    this.pendingFault = null;
+    this.resetRally();
+    this.ballBody.position.set(from.x, SERVE_HEIGHT, from.z);
+    this.launchTowards(target, flightTime);
+  }
+
+  public step(dt: number) {
+    this.time += dt;
+    const state = this.state;
+
+    if (state.matchStarted && !state.matchEnded && !this.scripted) {
+      state.elapsed = Math.min(state.matchDuration, state.elapsed + dt);
+      const rey = this.playerWithRole('rey');
+      if (rey) rey.state.timeAsRey += dt;
+      if (state.elapsed >= state.matchDuration) this.endMatch();
+    }
+
+    for (const player of this.players.values()) this.movePlayer(player, dt);
+
+    if (this.parked) {
+      this.holdBall(0, BALL_RADIUS, 0);
+    } else if (state.waitingForServe) {
+      this.holdBallForServe();
+      if (state.matchStarted && !state.matchEnded && this.time >= this.serveAt) this.serve();
+    } else {
+      this.contacts = [];
+      this.world.step(FIXED_STEP, dt, 3);
+      for (const contact of this.contacts) this.handleContact(contact.body, contact.impact);
+      this.checkDeadBall();
+    }
+
+    if (this.pendingFault && this.time >= this.pendingFault.at) this.rotate(this.pendingFault);
+    this.syncBall();
+  }
+
+  public dispose() {
+    for (const body of [...this.world.bodies]) this.world.removeBody(body);
+    this.players.clear();
+    this.bodyOwners.clear();
+  }
+
+  private movePlayer(player: SimPlayer, dt: number) {
+    const p = player.state;
+    if (!isCourtRole(p.role)) return;
+
+    const [mx, mz] = player.move;
+    const limit = COURT_HALF_SIZE - PLAYER_RADIUS;
+    p.x = Math.max(-limit, Math.min(limit, p.x + mx * PLAYER_SPEED * dt));
+    p.z = Math.max(-limit, Math.min(limit, p.z + mz * PLAYER_SPEED * dt));
+    p.vx = mx * PLAYER_SPEED;
+    p.vz = mz * PLAYER_SPEED;
+    if (mx !== 0 || mz !== 0) p.rotY = Math.atan2(mx, mz);
+
+    if (p.jumping) {
+      player.vy -= GRAVITY * dt;
+      p.y += player.vy * dt;
+      if (p.y <= 0) {
+        p.y = 0;
+        player.vy = 0;
+        p.jumping = false;
+      }
+    }
+
+    player.body.position.set(p.x, p.y, p.z);
+    player.body.velocity.set(p.vx, player.vy, p.vz);
+  }
+
+  // Put a player on their quadrant's starting spot, or off to the side while queued
+  private placePlayer(player: SimPlayer) {
+    const p = player.state;
+    player.move = [0, 0];
+    player.vy = 0;
+    p.y = 0;
+    p.vx = p.vz = 0;
+    p.jumping = false;
+    if (isCourtRole(p.role)) {
+      const center = QUADRANT_CENTERS[p.role];
+      p.x = center.x;
+      p.z = center.z;
+      // Face the middle of the court
+      p.rotY = Math.atan2(-center.x, -center.z);
+      p.active = true;
+    } else {
+      p.x = COURT_HALF_SIZE + 2;
+      p.z = this.state.queue.indexOf(p.id) * 1.5;
+      p.active = false;
+    }
+    player.body.position.set(p.x, p.y, p.z);
+  }
+
+  private playerWithRole(role: CourtRole): SimPlayer | undefined {
+    for (const player of this.players.values()) {
+      if (player.state.role === role) return player;
+    }
+    return undefined;
+  }
+
+  private roleOf(id: string): CourtRole | null {
+    const role = this.players.get(id)?.state.role;
+    return isCourtRole(role) ? role : null;
+  }
+
+  private prepareServe() {
+    const state = this.state;
+    state.waitingForServe = true;
+    state.currentServer = this.playerWithRole('rey')?.state.id ?? '';
+    this.resetRally();
+    this.serveAt = this.time + SERVE_DELAY;
+    this.holdBallForServe();
+  }
+
+  private park() {
+    this.parked = true;
+    // Players move freely between feeds instead of being held for a serve
+    if (this.scripted) this.state.waitingForServe = false;
+    this.resetRally();
+    this.holdBall(0, BALL_RADIUS, 0);
+  }
+
+  private resetRally() {
+    const ball = this.state.ball;
+    ball.lastTouchedBy = '';
+    ball.lastBounceOnRole = '';
+    ball.bounceCount = 0;
+    this.bouncedSinceTouch = false;
+    this.groundedSince = null;
+  }
+
+  private holdBallForServe() {
+    const center = QUADRANT_CENTERS.rey;
+    this.holdBall(center.x, SERVE_HEIGHT, center.z);
+  }
+
+  private holdBall(x: number, y: number, z: number) {
+    this.ballBody.position.set(x, y, z);
+    this.ballBody.velocity.setZero();
+    this.ballBody.angularVelocity.setZero();
+  }
+
+  // The ball leaves the Rey quadrant on its own towards a random other quadrant
+  private serve() {
+    const targets = COURT_ROLES.filter(role => role !== 'rey');
+    this.launchTowards(QUADRANT_CENTERS[targets[Math.floor(Math.random() * targets.length)]], SERVE_FLIGHT_TIME);
+    this.state.waitingForServe = false;
+    this.touch(this.state.currentServer);
+  }
+
+  // Land on the target after t seconds: y0 + vy·t − ½g·t² = r
+  private launchTowards(target: { x: number; z: number }, t: number) {
+    const from = this.ballBody.position;
+    const vy = (BALL_RADIUS - from.y + 0.5 * GRAVITY * t * t) / t;
+    this.ballBody.velocity.set((target.x - from.x) / t, vy, (target.z - from.z) / t);
+  }
+
+  private touch(id: string) {
+    if (!id) return;
+    const ball = this.state.ball;
+    ball.lastTouchedBy = id;
+    ball.bounceCount = 0;
+    this.bouncedSinceTouch = false;
+  }
+
+  private handleContact(body: CANNON.Body, impact: number) {
+    if (this.pendingFault) return;
+    if (body === this.ground) {
+      if (impact < BOUNCE_MIN_IMPACT || this.time - this.lastBounceAt < BOUNCE_MIN_INTERVAL) return;
+      this.lastBounceAt = this.time;
+      this.handleBounce(this.ballBody.position.x, this.ballBody.position.z);
+      return;
+    }
+    const owner = this.bodyOwners.get(body.id);
+    if (owner && owner !== this.state.ball.lastTouchedBy) this.touch(owner);
+  }
+
+  private handleBounce(x: number, z: number) {
+    const ball = this.state.ball;
+    const role = quadrantAt(x, z);
+    const toucherRole = this.roleOf(ball.lastTouchedBy);
+
+    if (!role) {
+      // Out: whoever let it get there is responsible
+      if (this.bouncedSinceTouch && isCourtRole(ball.lastBounceOnRole)) {
+        this.fault(ball.lastBounceOnRole, 'failed to return the ball');
+      } else if (toucherRole) {
+        this.fault(toucherRole, 'hit the ball out');
+      } else if (this.scripted) {
+        // A fed ball nobody played: nobody to blame
+        this.park();
+      }
+      return;
+    }
+
+    ball.lastBounceTime = Math.round(this.time * 1000);
+    if (this.bouncedSinceTouch && role === ball.lastBounceOnRole) {
+      ball.bounceCount++;
+      this.fault(role, 'double bounce');
+    } else if (!this.bouncedSinceTouch && role === toucherRole) {
+      ball.lastBounceOnRole = role;
+      ball.bounceCount = 1;
+      this.fault(role, 'ball landed in own quadrant');
+    } else {
+      ball.lastBounceOnRole = role;
+      ball.bounceCount = 1;
+      this.bouncedSinceTouch = true;
+      this.emit('event', { type: 'quadrantHighlight', role, color: 'blue' });
+    }
+  }
+
+  // A ball rolling along the ground can't be returned any more
+  private checkDeadBall() {
+    if (this.pendingFault) return;
+    const position = this.ballBody.position;
+    const onGround = position.y <= BALL_RADIUS + 0.05 && Math.abs(this.ballBody.velocity.y) < BOUNCE_MIN_IMPACT;
+    if (!onGround) {
+      this.groundedSince = null;
+      return;
+    }
+    this.groundedSince ??= this.time;
+    if (this.time - this.groundedSince < DEAD_BALL_TIME) return;
+
+    const role = quadrantAt(position.x, position.z);
+    if (role) {
+      this.fault(role, 'failed to return the ball');
+    } else {
+      this.handleBounce(position.x, position.z);
+    }
+  }
+
+  private fault(role: CourtRole, reason: string) {
+    this.pendingFault = { role, reason, at: this.time + ROTATION_DELAY };
+    this.emit('event', { type: 'quadrantHighlight', role, color: 'red' });
+  }
+
+  // The loser drops to Mato (or the queue) and everyone below moves up one place
+  private rotate(fault: PendingFault) {
+    this.pendingFault = null;
+    if (this.scripted && !this.rotateOnFault) {
+      this.park();
+      return;
+    }
+    const order = [...COURT_ROLES];
+    const loserIndex = order.indexOf(fault.role);
+    const holders = order.map(role => this.playerWithRole(role));
+    const loser = holders[loserIndex];
+
+    const below = holders.slice(loserIndex + 1);
+    below.forEach((player, i) => {
+      if (player) player.state.role = order[loserIndex + i];
+    });
+
+    if (loser) {
+      const nextId = this.state.queue.shift();
+      const next = nextId ? this.players.get(nextId) : undefined;
+      if (next) {
+        next.state.role = 'mato';
+        loser.state.role = 'queue';
+        this.state.queue.push(loser.state.id);
+      } else {
+        loser.state.role = 'mato';
+      }
+    }
+
+    for (const player of this.players.values()) this.placePlayer(player);
+    this.emit('event', { type: 'rolesRotated', reason: fault.reason });
+    if (this.scripted) this.park();
+    else if (!this.state.matchEnded) this.prepareServe();
+  }
+
+  private endMatch() {
+    const state = this.state;
+    state.matchEnded = true;
+    this.pendingFault = null;
+    state.waitingForServe = true;
+    this.holdBallForServe();
+    const leaderboard = Array.from(this.players.values(), p => ({ id: p.state.id, nickname: p.state.nickname, timeAsRey: p.state.timeAsRey }))
+      .sort((a, b) => b.timeAsRey - a.timeAsRey);
+    this.emit('event', { type: 'matchEnd', leaderboard });
+  }
+
+  private syncBall() {
+    const ball = this.state.ball;
+    const { position, velocity } = this.ballBody;
+    ball.x = position.x;
+    ball.y = position.y;
+    ball.z = position.z;
+    ball.vx = velocity.x;
+    ball.vy = velocity.y;
+    ball.vz = velocity.z;
+  }
+}
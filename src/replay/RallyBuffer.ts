@@ -0,0 +1,71 @@
+import {
+  REPLAY_VERSION,
+  encodeState,
+  type ReplayFile,
+  type ReplayFrame,
+  type ReplayMessage,
+  type ReplayPlayerInfo
+} from './replayFormat.ts';
+import type { GameStateSchema } from '../types.ts';
+
+/**
+ * Rolling window of the most recent states and animation messages, cut into a short
+ * replay clip when a rally ends.
+ */
+export default class RallyBuffer {
+  private frames: ReplayFrame[] = [];
+  private messages: ReplayMessage[] = [];
+  private players: Record<string, ReplayPlayerInfo> = {};
+
+  constructor(private readonly windowMs = 8000) {}
+
+  public recordState(state: GameStateSchema, now = performance.now()) {
+    for (const [id, p] of state.players) {
+      this.players[id] = { nickname: p.nickname, color: p.color };
+    }
+    this.frames.push(encodeState(state, now));
+    this.trim(now);
+  }
+
+  public recordAnimation(data: unknown, now = performance.now()) {
+    this.messages.push({ t: Math.round(now), c: 'playerAnimation', d: data });
+  }
+
+  /**
+   * The last `clipMs` of the buffer as a replay file, then start collecting the next rally.
+   * Returns null when there isn't enough to show.
+   */
+  public takeClip(clipMs: number, myPlayerId: string): ReplayFile | null {
+    const last = this.frames[this.frames.length - 1];
+    const start = last ? last.t - clipMs : 0;
+    const frames = this.frames.filter(f => f.t >= start);
+    const messages = this.messages.filter(m => m.t >= start);
+    const players = this.players;
+    this.clear();
+    if (frames.length < 2) return null;
+
+    const first = frames[0].t;
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      roomId: '',
+      myPlayerId,
+      duration: frames[frames.length - 1].t - first,
+      players,
+      frames: frames.map(f => ({ ...f, t: f.t - first })),
+      messages: messages.map(m => ({ ...m, t: m.t - first }))
+    };
+  }
+
+  public clear() {
+    this.frames = [];
+    this.messages = [];
+    this.players = {};
+  }
+
+  private trim(now: number) {
+    const cutoff = now - this.windowMs;
+    while (this.frames.length > 0 && this.frames[0].t < cutoff) this.frames.shift();
+    while (this.messages.length > 0 && this.messages[0].t < cutoff) this.messages.shift();
+  }
+}
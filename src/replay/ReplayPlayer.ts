@@ -0,0 +1,73 @@
+import type { ReplayFile, ReplayFrame, ReplayMessage } from './replayFormat.ts';
+
+export interface ReplayStep {
+  frames: ReplayFrame[];
+  messages: ReplayMessage[];
+  // True after a seek: anything derived from earlier frames must be dropped
+  reset: boolean;
+}
+
+// Frames kept before the playhead after a seek, so interpolation has a pair to work with
+const SEEK_CONTEXT_FRAMES = 2;
+
+/**
+ * Playback clock over a replay file. Each tick returns the frames and messages that became
+ * due, so they can be fed through the same path as live room updates.
+ */
+export default class ReplayPlayer {
+  public time = 0;
+  public playing = true;
+  public speed = 1;
+
+  private frameIndex = 0;
+  private messageIndex = 0;
+  private pendingSeek = true;
+
+  constructor(public readonly file: ReplayFile) {}
+
+  public get duration(): number {
+    return this.file.duration;
+  }
+
+  public seek(time: number) {
+    this.time = Math.max(0, Math.min(this.duration, time));
+    this.pendingSeek = true;
+  }
+
+  /**
+   * Advance the clock by `dtMs` of wall time. `lookaheadMs` releases frames slightly early,
+   * matching the interpolation delay used for live play.
+   */
+  public advance(dtMs: number, lookaheadMs: number): ReplayStep {
+    if (this.playing) {
+      this.time = Math.min(this.duration, this.time + dtMs * this.speed);
+      if (this.time >= this.duration) this.playing = false;
+    }
+
+    const frames = this.file.frames;
+    const messages = this.file.messages;
+    const horizon = this.time + lookaheadMs;
+    const reset = this.pendingSeek;
+
+    if (reset) {
+      this.pendingSeek = false;
+      let index = 0;
+      while (index < frames.length && frames[index].t <= horizon) index++;
+      this.frameIndex = Math.max(0, index - SEEK_CONTEXT_FRAMES);
+      // Messages are events in time; skip the ones we scrubbed past
+      this.messageIndex = 0;
+      while (this.messageIndex < messages.length && messages[this.messageIndex].t <= horizon) this.messageIndex++;
+    }
+
+    const dueFrames: ReplayFrame[] = [];
+    while (this.frameIndex < frames.length && frames[this.frameIndex].t <= horizon) {
+      dueFrames.push(frames[this.frameIndex++]);
+    }
+    const dueMessages: ReplayMessage[] = [];
+    while (this.messageIndex < messages.length && messages[this.messageIndex].t <= horizon) {
+      dueMessages.push(messages[this.messageIndex++]);
+    }
+
+    return { frames: dueFrames, messages: dueMessages, reset };
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  REPLAY_VERSION,
+  encodeState,
+  type ReplayChannel,
+  type ReplayFile,
+  type ReplayFrame,
+  type ReplayMessage,
+  type ReplayPlayerInfo
+} from './replayFormat.ts';
+import type { GameStateSchema } from '../types.ts';
+
+// About 30 minutes at the server's 20 Hz patch rate
+const MAX_FRAMES = 36_000;
+
+/** Records room states and messages as they arrive, for download as a replay file. */
+export default class ReplayRecorder {
+  private readonly startTime = performance.now();
+  private readonly recordedAt = new Date().toISOString();
+  private readonly frames: ReplayFrame[] = [];
+  private readonly messages: ReplayMessage[] = [];
+  private readonly players: Record<string, ReplayPlayerInfo> = {};
+
+  constructor(
+    public readonly roomId: string,
+    private readonly myPlayerId: string
+  ) {}
+
+  public get hasData(): boolean {
+    return this.frames.length > 0;
+  }
+
+  public recordState(state: GameStateSchema) {
+    if (this.frames.length >= MAX_FRAMES) return;
+    for (const [id, p] of state.players) {
+      this.players[id] = { nickname: p.nickname, color: p.color };
+    }
+    this.frames.push(encodeState(state, performance.now() - this.startTime));
+  }
+
+  public recordMessage(channel: ReplayChannel, data: unknown) {
+    if (this.frames.length >= MAX_FRAMES) return;
+    this.messages.push({ t: Math.round(performance.now() - this.startTime), c: channel, d: data });
+  }
+
+  public toFile(): ReplayFile {
+    const first = this.frames[0]?.t ?? 0;
+    const last = this.frames[this.frames.length - 1]?.t ?? 0;
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: this.recordedAt,
+      roomId: this.roomId,
+      myPlayerId: this.myPlayerId,
+      duration: last - first,
+      players: { ...this.players },
+      // Rebase the timeline so playback starts at the first state
+      frames: this.frames.map(f => ({ ...f, t: f.t - first })),
+      messages: this.messages.filter(m => m.t >= first).map(m => ({ ...m, t: m.t - first }))
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import type { BallState, GameStateSchema, PlayerState } from '../types.ts';
+
+// Compact, JSON-serializable replay format. Per-frame data is stored as tuples with
+// rounded numbers; names and colors are stored once per player.
+
+export const REPLAY_VERSION = 1;
+
+type PlayerTuple = [
+  id: string, role: string, x: number, y: number, z: number, rotY: number,
+  flags: number, timeAsRey: number, vx: number, vz: number
+];
+
+type BallTuple = [
+  x: number, y: number, z: number, vx: number, vy: number, vz: number,
+  lastTouchedBy: string, lastBounceOnRole: string, lastBounceTime: number, bounceCount: number
+];
+
+export interface ReplayFrame {
+  t: number;                                   // ms since recording started
+  m: [elapsed: number, matchDuration: number, flags: number];
+  b: BallTuple;
+  p: PlayerTuple[];
+  q: string[];
+  s: string;                                   // currentServer
+}
+
+export type ReplayChannel = 'event' | 'playerAnimation';
+
+export interface ReplayMessage {
+  t: number;
+  c: ReplayChannel;
+  d: unknown;
+}
+
+export interface ReplayPlayerInfo {
+  nickname: string;
+  color: string;
+}
+
+export interface ReplayFile {
+  version: typeof REPLAY_VERSION;
+  recordedAt: string;
+  roomId: string;
+  myPlayerId: string;
+  duration: number;
+  players: Record<string, ReplayPlayerInfo>;
+  frames: ReplayFrame[];
+  messages: ReplayMessage[];
+}
+
+const PLAYER_ACTIVE = 1;
+const PLAYER_JUMPING = 2;
+const MATCH_STARTED = 1;
+const MATCH_ENDED = 2;
+const MATCH_WAITING_FOR_SERVE = 4;
+
+const round = (n: number) => Math.round((n || 0) * 100) / 100;
+
+export function encodeState(state: GameStateSchema, t: number): ReplayFrame {
+  const b = state.ball;
+  return {
+    t: Math.round(t),
+    m: [
+      state.elapsed,
+      state.matchDuration,
+      (state.matchStarted ? MATCH_STARTED : 0) | (state.matchEnded ? MATCH_ENDED : 0) |
+        (state.waitingForServe ? MATCH_WAITING_FOR_SERVE : 0)
+    ],
+    b: [
+      round(b.x), round(b.y), round(b.z), round(b.vx), round(b.vy), round(b.vz),
+      b.lastTouchedBy, b.lastBounceOnRole, b.lastBounceTime, b.bounceCount
+    ],
+    p: Array.from(state.players, ([id, p]): PlayerTuple => [
+      id, p.role, round(p.x), round(p.y), round(p.z), round(p.rotY),
+      (p.active ? PLAYER_ACTIVE : 0) | (p.jumping ? PLAYER_JUMPING : 0),
+      p.timeAsRey, round(p.vx), round(p.vz)
+    ]),
+    q: Array.from(state.queue ?? []),
+    s: state.currentServer
+  };
+}
+
+export function decodeFrame(frame: ReplayFrame, players: Record<string, ReplayPlayerInfo>): GameStateSchema {
+  const [bx, by, bz, bvx, bvy, bvz, lastTouchedBy, lastBounceOnRole, lastBounceTime, bounceCount] = frame.b;
+  const ball: BallState = { x: bx, y: by, z: bz, vx: bvx, vy: bvy, vz: bvz, lastTouchedBy, lastBounceOnRole, lastBounceTime, bounceCount };
+
+  const playerMap = new Map<string, PlayerState>();
+  for (const [id, role, x, y, z, rotY, flags, timeAsRey, vx, vz] of frame.p) {
+    const info = players[id] ?? { nickname: id, color: '#808080' };
+    playerMap.set(id, {
+      id, nickname: info.nickname, color: info.color, role, x, y, z, rotY, timeAsRey, vx, vz,
+      active: (flags & PLAYER_ACTIVE) !== 0,
+      jumping: (flags & PLAYER_JUMPING) !== 0
+    });
+  }
+
+  const [elapsed, matchDuration, flags] = frame.m;
+  return {
+    players: playerMap,
+    ball,
+    currentServer: frame.s,
+    queue: frame.q,
+    elapsed,
+    matchDuration,
+    matchStarted: (flags & MATCH_STARTED) !== 0,
+    matchEnded: (flags & MATCH_ENDED) !== 0,
+    waitingForServe: (flags & MATCH_WAITING_FOR_SERVE) !== 0
+  };
+}
+
+/** Parse and sanity-check a replay file; throws with a readable message when invalid. */
+export function parseReplayFile(text: string): ReplayFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  const file = data as Partial<ReplayFile>;
+  if (!file || typeof file !== 'object') throw new Error('Replay file is empty');
+  if (file.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${String(file.version)}`);
+  if (!Array.isArray(file.frames) || file.frames.length === 0) throw new Error('Replay contains no frames');
+  if (!Array.isArray(file.messages) || typeof file.players !== 'object' || file.players === null) {
+    throw new Error('Replay file is malformed');
+  }
+  return file as ReplayFile;
+}
+
+export function downloadReplayFile(file: ReplayFile) {
+  const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `reymato-replay-${file.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
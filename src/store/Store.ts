@@ -0,0 +1,55 @@
+type Listener = () => void;
+
+// Equal if identical, or arrays with identical elements (one level deep)
+const valueEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => Object.is(v, b[i]));
+  }
+  return false;
+};
+
+export const shallowEqual = (a: unknown, b: unknown): boolean => {
+  if (valueEqual(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+  if (ka.length !== kb.length) return false;
+  return ka.every(k => valueEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+};
+
+/**
+ * Minimal observable store made of named slices. A slice object is only replaced when one
+ * of its fields actually changes, so selectors can rely on reference equality and React
+ * subscribers only re-render when their slice changes.
+ */
+export default class Store<T extends { [K in keyof T]: object }> {
+  private state: T;
+  private readonly listeners = new Set<Listener>();
+
+  constructor(initial: T) {
+    this.state = initial;
+  }
+
+  public readonly getState = (): T => this.state;
+
+  public readonly subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public reset(state: T) {
+    this.state = state;
+    for (const listener of this.listeners) listener();
+  }
+
+  public update<K extends keyof T>(key: K, patch: Partial<T[K]>) {
+    const prev = this.state[key];
+    const next = { ...prev, ...patch };
+    if (shallowEqual(prev, next)) return;
+    this.state = { ...this.state, [key]: next };
+    for (const listener of this.listeners) listener();
+  }
+}
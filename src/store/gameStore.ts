@@ -0,0 +1,201 @@
+import Store, { shallowEqual } from './Store.ts';
+import { useStore } from './useStore.ts';
+import type { ConnectionStatus } from '../net/ConnectionManager.ts';
+import type { LeaderboardEntry } from '../net/protocol.ts';
+import type { SpectatorView } from '../game/SpectatorCamera.ts';
+import type { NetworkRates } from '../net/NetworkStats.ts';
+
+export interface ConnectionSlice {
+  status: ConnectionStatus;
+  detail: string;
+  roomId: string;
+}
+
+export interface PlayerSlice {
+  id: string;
+  role: string;
+  timeAsRey: number;
+}
+
+export interface MatchSlice {
+  elapsed: number;
+  duration: number;
+  started: boolean;
+  ended: boolean;
+  waitingForServe: boolean;
+}
+
+export interface QueueSlice {
+  // Session ids waiting for a spot on the court, in order
+  ids: string[];
+  currentServer: string;
+  // Average seconds between role rotations seen so far, null until measured
+  avgRotationSeconds: number | null;
+}
+
+export interface PlayerSummary {
+  id: string;
+  nickname: string;
+  role: string;
+  color: string;
+  timeAsRey: number;
+}
+
+export interface PlayersSlice {
+  // Summaries keep their identity while unchanged, so list consumers can memoize
+  list: PlayerSummary[];
+}
+
+export interface LeaderboardSlice {
+  entries: LeaderboardEntry[];
+  visible: boolean;
+}
+
+export interface ErrorEntry {
+  id: number;
+  message: string;
+}
+
+export interface ErrorsSlice {
+  items: ErrorEntry[];
+}
+
+export interface FeedItem {
+  id: number;
+  text: string;
+  tone: 'info' | 'good' | 'bad';
+}
+
+export interface FeedSlice {
+  // Most recent rule events, newest last
+  items: FeedItem[];
+}
+
+export interface ReplaySlice {
+  active: boolean;
+  // Playback position and length in seconds
+  time: number;
+  duration: number;
+  playing: boolean;
+  speed: number;
+}
+
+export interface InstantReplaySlice {
+  // Slow-motion replay of the last rally is on screen
+  active: boolean;
+}
+
+export interface SpectatorSlice {
+  // Joined as a spectator: no court spot, no input
+  active: boolean;
+  view: SpectatorView;
+  // Player followed by the follow-player view
+  targetId: string;
+}
+
+export interface PracticeSlice {
+  // Playing offline against bots in a local simulation
+  active: boolean;
+}
+
+export interface TutorialSlice {
+  active: boolean;
+  // Index into TUTORIAL_STEPS
+  step: number;
+  // The current step's goal has been reached
+  stepDone: boolean;
+}
+
+// Measured once per second, for the debug overlay
+export type NetworkSlice = NetworkRates;
+
+export interface GameStoreState {
+  connection: ConnectionSlice;
+  player: PlayerSlice;
+  match: MatchSlice;
+  queue: QueueSlice;
+  players: PlayersSlice;
+  leaderboard: LeaderboardSlice;
+  errors: ErrorsSlice;
+  feed: FeedSlice;
+  replay: ReplaySlice;
+  instantReplay: InstantReplaySlice;
+  spectator: SpectatorSlice;
+  practice: PracticeSlice;
+  tutorial: TutorialSlice;
+  network: NetworkSlice;
+}
+
+export type GameStore = Store<GameStoreState>;
+
+const initialGameState = (): GameStoreState => ({
+  connection: { status: 'idle', detail: '', roomId: '' },
+  player: { id: '', role: 'queue', timeAsRey: 0 },
+  match: { elapsed: 0, duration: 0, started: false, ended: false, waitingForServe: false },
+  queue: { ids: [], currentServer: '', avgRotationSeconds: null },
+  players: { list: [] },
+  leaderboard: { entries: [], visible: false },
+  errors: { items: [] },
+  feed: { items: [] },
+  replay: { active: false, time: 0, duration: 0, playing: false, speed: 1 },
+  instantReplay: { active: false },
+  spectator: { active: false, view: 'broadcast', targetId: '' },
+  practice: { active: false },
+  tutorial: { active: false, step: 0, stepDone: false },
+  network: { sentBytesPerSecond: 0, receivedBytesPerSecond: 0, inputsPerSecond: 0 }
+});
+
+export const createGameStore = (): GameStore => new Store<GameStoreState>(initialGameState());
+
+// Back to a blank slate, e.g. when returning to the lobby
+export const resetGameStore = (store: GameStore) => store.reset(initialGameState());
+
+// Shared store for the running game; GameScene writes, HUD components read
+export const gameStore = createGameStore();
+
+let nextErrorId = 1;
+
+export const pushError = (store: GameStore, message: string) => {
+  const items = store.getState().errors.items;
+  store.update('errors', { items: [...items, { id: nextErrorId++, message }] });
+};
+
+export const dismissError = (store: GameStore, id: number) => {
+  const items = store.getState().errors.items;
+  store.update('errors', { items: items.filter(e => e.id !== id) });
+};
+
+const MAX_FEED_ITEMS = 6;
+let nextFeedId = 1;
+
+export const pushFeed = (store: GameStore, text: string, tone: FeedItem['tone'] = 'info') => {
+  const items = store.getState().feed.items;
+  store.update('feed', { items: [...items, { id: nextFeedId++, text, tone }].slice(-MAX_FEED_ITEMS) });
+};
+
+// ---- Selectors ----
+
+export const selectConnection = (s: GameStoreState) => s.connection;
+export const selectConnected = (s: GameStoreState) => s.connection.status === 'connected';
+export const selectPlayer = (s: GameStoreState) => s.player;
+export const selectRole = (s: GameStoreState) => s.player.role;
+export const selectMatch = (s: GameStoreState) => s.match;
+export const selectQueue = (s: GameStoreState) => s.queue;
+export const selectPlayers = (s: GameStoreState) => s.players.list;
+export const selectLeaderboard = (s: GameStoreState) => s.leaderboard;
+export const selectErrors = (s: GameStoreState) => s.errors.items;
+export const selectFeed = (s: GameStoreState) => s.feed.items;
+export const selectReplay = (s: GameStoreState) => s.replay;
+export const selectInstantReplay = (s: GameStoreState) => s.instantReplay.active;
+export const selectSpectator = (s: GameStoreState) => s.spectator;
+export const selectPractice = (s: GameStoreState) => s.practice.active;
+export const selectTutorial = (s: GameStoreState) => s.tutorial;
+export const selectNetwork = (s: GameStoreState) => s.network;
+
+export function useGameStore<S>(
+  selector: (state: GameStoreState) => S,
+  isEqual: (a: S, b: S) => boolean = shallowEqual,
+  store: GameStore = gameStore
+): S {
+  return useStore(store, selector, isEqual);
+}
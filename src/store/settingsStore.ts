@@ -0,0 +1,85 @@
+import Store, { shallowEqual } from './Store.ts';
+import { useStore } from './useStore.ts';
+import { isCameraRigId, type CameraRigId } from '../game/cameraRigs.ts';
+import {
+  DEFAULT_GAMEPAD_BINDINGS,
+  DEFAULT_KEY_BINDINGS,
+  type GamepadBindings,
+  type KeyBindings
+} from '../input/bindings.ts';
+
+export interface DisplaySettings {
+  // Projected ball arc and landing marker
+  showTrajectory: boolean;
+  // Slow-motion replay of each rally when roles rotate
+  instantReplay: boolean;
+  // Debug readout of bandwidth and input rate
+  showNetStats: boolean;
+}
+
+export interface CameraSettings {
+  rig: CameraRigId;
+}
+
+export interface ControlsSettings {
+  keys: KeyBindings;
+  gamepad: GamepadBindings;
+}
+
+export interface SettingsState {
+  display: DisplaySettings;
+  camera: CameraSettings;
+  controls: ControlsSettings;
+}
+
+const STORAGE_KEY = 'reymato.settings';
+
+const defaultSettings = (): SettingsState => ({
+  display: { showTrajectory: true, instantReplay: true, showNetStats: false },
+  camera: { rig: 'behind-court' },
+  controls: { keys: DEFAULT_KEY_BINDINGS, gamepad: DEFAULT_GAMEPAD_BINDINGS }
+});
+
+// Merge saved values over the defaults so new settings pick up their default value
+const loadSettings = (): SettingsState => {
+  const defaults = defaultSettings();
+  try {
+    const saved = JSON.parse(globalThis.localStorage?.getItem(STORAGE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return defaults;
+    const merged = { ...defaults } as Record<string, object>;
+    for (const key of Object.keys(defaults)) {
+      const slice = saved[key];
+      if (slice && typeof slice === 'object') merged[key] = { ...merged[key], ...slice };
+    }
+    const settings = merged as unknown as SettingsState;
+    // A saved rig that no longer exists falls back to the default
+    if (!isCameraRigId(settings.camera.rig)) settings.camera = defaults.camera;
+    return settings;
+  } catch {
+    return defaults;
+  }
+};
+
+export type SettingsStore = Store<SettingsState>;
+
+// User preferences, persisted to localStorage on every change
+export const settingsStore: SettingsStore = new Store<SettingsState>(loadSettings());
+
+settingsStore.subscribe(() => {
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(settingsStore.getState()));
+  } catch (error) {
+    console.warn('Failed to save settings:', error);
+  }
+});
+
+export const selectDisplaySettings = (s: SettingsState) => s.display;
+export const selectCameraSettings = (s: SettingsState) => s.camera;
+export const selectControlsSettings = (s: SettingsState) => s.controls;
+
+export function useSettings<S>(
+  selector: (state: SettingsState) => S,
+  isEqual: (a: S, b: S) => boolean = shallowEqual
+): S {
+  return useStore(settingsStore, selector, isEqual);
+}
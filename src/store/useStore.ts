@@ -0,0 +1,29 @@
+import { useRef, useSyncExternalStore } from 'react';
+import Store, { shallowEqual } from './Store.ts';
+
+/**
+ * Subscribe a component to a derived value of a store. The component only re-renders
+ * when the selected value changes according to `isEqual`.
+ */
+export function useStore<T extends { [K in keyof T]: object }, S>(
+  store: Store<T>,
+  selector: (state: T) => S,
+  isEqual: (a: S, b: S) => boolean = shallowEqual
+): S {
+  const cache = useRef<{ state: T; selected: S } | null>(null);
+
+  const getSnapshot = () => {
+    const state = store.getState();
+    const cached = cache.current;
+    if (cached && cached.state === state) return cached.selected;
+    const selected = selector(state);
+    if (cached && isEqual(cached.selected, selected)) {
+      cache.current = { state, selected: cached.selected };
+      return cached.selected;
+    }
+    cache.current = { state, selected };
+    return selected;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot);
+}
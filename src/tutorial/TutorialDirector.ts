@@ -0,0 +1,147 @@
+import { QUADRANT_CENTERS } from '../offline/ReyMatoSimulation.ts';
+import type LocalRoom from '../offline/LocalRoom.ts';
+import { COURT_ROLES, isCourtRole, parseGameEvent, parsePlayerAnimation } from '../net/protocol.ts';
+import type { GameStore } from '../store/gameStore.ts';
+import type { GameStateSchema } from '../types.ts';
+import { TUTORIAL_STEPS, type TutorialStep } from './tutorialSteps.ts';
+import { markTutorialStep } from './tutorialProgress.ts';
+
+const MOVE_GOAL_DISTANCE = 3;
+const FEED_DELAY_MS = 1200;        // pause before each fed ball
+const ADVANCE_DELAY_MS = 1500;     // time to enjoy a completed step before the next one
+const STRIKE_WINDOW_MS = 600;      // a touch this soon after a press counts as that press
+const FEED_FLIGHT_TIME = { low: 0.9, high: 1.4 };
+const FEED_OFFSET = 1.5;           // how far from the quadrant centre balls are fed
+
+/**
+ * Runs the tutorial in a sandbox room: feeds balls for the current step, watches the
+ * state and events for its goal and moves on once it's reached. The UI reads progress
+ * from the `tutorial` store slice; completion is saved to localStorage.
+ */
+export default class TutorialDirector {
+  private stepIndex = 0;
+  private doneAt: number | null = null;
+  private feedAt = 0;
+  private startPosition: { x: number; z: number } | null = null;
+  private startRole = '';
+  private lastTouchedBy = '';
+  private lastPress: { action: string; at: number } | null = null;
+  private disposed = false;
+
+  constructor(private readonly room: LocalRoom, private readonly store: GameStore) {
+    room.onStateChange((state) => this.observe(state));
+    room.onMessage('playerAnimation', (message) => {
+      const result = parsePlayerAnimation(message);
+      if (result.ok && result.value.playerId === room.sessionId) {
+        this.lastPress = { action: result.value.action, at: performance.now() };
+      }
+    });
+    room.onMessage('event', (message) => {
+      const result = parseGameEvent(message);
+      if (!result.ok) return;
+      const event = result.value;
+      const myRole = room.state.players.get(room.sessionId)?.role;
+      if (event.type === 'quadrantHighlight' && event.color === 'red' && event.role === myRole) {
+        this.reach('ownFault');
+      }
+    });
+  }
+
+  public start() {
+    this.enterStep(0);
+  }
+
+  /** Move on from a step without a goal, or one whose goal was reached. */
+  public next() {
+    const step = this.step;
+    if (step.goal && this.doneAt === null) return;
+    markTutorialStep(step.id, this.stepIndex === TUTORIAL_STEPS.length - 1);
+    if (this.stepIndex < TUTORIAL_STEPS.length - 1) this.enterStep(this.stepIndex + 1);
+  }
+
+  public dispose() {
+    this.disposed = true;
+  }
+
+  private get step(): TutorialStep {
+    return TUTORIAL_STEPS[this.stepIndex];
+  }
+
+  private enterStep(index: number) {
+    this.stepIndex = index;
+    this.doneAt = null;
+    this.startPosition = null;
+    this.startRole = this.room.state.players.get(this.room.sessionId)?.role ?? '';
+    this.feedAt = performance.now() + FEED_DELAY_MS;
+    this.room.simulation.rotateOnFault = !!this.step.rotation;
+    this.store.update('tutorial', { active: true, step: index, stepDone: false });
+  }
+
+  private reach(goal: TutorialStep['goal']) {
+    if (this.disposed || this.doneAt !== null || this.step.goal !== goal) return;
+    this.doneAt = performance.now();
+    markTutorialStep(this.step.id);
+    this.store.update('tutorial', { stepDone: true });
+  }
+
+  private observe(state: GameStateSchema) {
+    if (this.disposed) return;
+    const now = performance.now();
+    const me = state.players.get(this.room.sessionId);
+    if (!me) return;
+
+    if (this.doneAt !== null && now - this.doneAt >= ADVANCE_DELAY_MS) {
+      this.next();
+      return;
+    }
+
+    switch (this.step.goal) {
+      case 'move':
+        this.startPosition ??= { x: me.x, z: me.z };
+        if (Math.hypot(me.x - this.startPosition.x, me.z - this.startPosition.z) >= MOVE_GOAL_DISTANCE) this.reach('move');
+        break;
+      case 'promoted': {
+        const rank = (role: string) => isCourtRole(role) ? COURT_ROLES.indexOf(role) : COURT_ROLES.length;
+        const before = rank(this.startRole);
+        const after = rank(me.role);
+        if (after < before) this.reach('promoted');
+        break;
+      }
+    }
+
+    // Kicks and headers count when our own touch follows the matching press
+    const touchedBy = state.ball.lastTouchedBy;
+    if (touchedBy !== this.lastTouchedBy && touchedBy === this.room.sessionId && this.lastPress &&
+        now - this.lastPress.at <= STRIKE_WINDOW_MS) {
+      this.reach(this.lastPress.action === 'head' ? 'head' : 'kick');
+    }
+    this.lastTouchedBy = touchedBy;
+
+    this.feedIfIdle(state, now);
+  }
+
+  // Keep balls coming into our quadrant while the step needs them
+  private feedIfIdle(state: GameStateSchema, now: number) {
+    const feed = this.step.feed;
+    const simulation = this.room.simulation;
+    if (!feed || this.doneAt !== null) return;
+    if (!simulation.awaitingFeed) {
+      this.feedAt = now + FEED_DELAY_MS;
+      return;
+    }
+    if (now < this.feedAt) return;
+
+    const me = state.players.get(this.room.sessionId);
+    if (!me || !isCourtRole(me.role)) return;
+    // Off centre and away from the player, so they have to move to it and it doesn't land on them
+    const center = QUADRANT_CENTERS[me.role];
+    const corners = [[1, 1], [1, -1], [-1, 1], [-1, -1]].map(([sx, sz]) => ({
+      x: center.x + sx * FEED_OFFSET,
+      z: center.z + sz * FEED_OFFSET
+    }));
+    const distance = (p: { x: number; z: number }) => Math.hypot(p.x - me.x, p.z - me.z);
+    const target = corners.reduce((best, p) => distance(p) > distance(best) ? p : best);
+    simulation.feedBall(target, FEED_FLIGHT_TIME[feed]);
+    this.feedAt = now + FEED_DELAY_MS;
+  }
+}
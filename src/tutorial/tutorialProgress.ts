@@ -0,0 +1,36 @@
+// Tutorial completion, kept in localStorage so the lobby can tell new players apart
+
+export interface TutorialProgress {
+  // Ids of the steps completed at least once
+  completedSteps: string[];
+  finished: boolean;
+}
+
+const STORAGE_KEY = 'reymato.tutorial';
+
+export const loadTutorialProgress = (): TutorialProgress => {
+  try {
+    const saved = JSON.parse(globalThis.localStorage?.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      completedSteps: Array.isArray(saved?.completedSteps) ? saved.completedSteps.filter((id: unknown) => typeof id === 'string') : [],
+      finished: saved?.finished === true
+    };
+  } catch {
+    return { completedSteps: [], finished: false };
+  }
+};
+
+export const saveTutorialProgress = (progress: TutorialProgress) => {
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.warn('Failed to save tutorial progress:', error);
+  }
+};
+
+export const markTutorialStep = (stepId: string, finished = false) => {
+  const progress = loadTutorialProgress();
+  if (!progress.completedSteps.includes(stepId)) progress.completedSteps.push(stepId);
+  progress.finished ||= finished;
+  saveTutorialProgress(progress);
+};
@@ -0,0 +1,82 @@
+import type { CourtRole } from '../net/protocol.ts';
+
+// What a step's callout points at: the player's own mesh or one of the quadrant overlays
+export type TutorialAnchor = 'player' | CourtRole;
+
+// How a step is completed; steps without a goal wait for "Next"
+export type TutorialGoal = 'move' | 'kick' | 'head' | 'ownFault' | 'promoted';
+
+export interface TutorialStep {
+  id: string;
+  title: string;
+  // {move}, {kick} and {head} are replaced with the player's current bindings
+  text: string;
+  anchor?: TutorialAnchor;
+  // Short label floating over the anchor
+  label?: string;
+  // Ball fed into the player's quadrant, again after every rally: low for kicks, high for headers
+  feed?: 'low' | 'high';
+  // Faults rotate roles; otherwise a fault only ends the rally
+  rotation?: boolean;
+  goal?: TutorialGoal;
+}
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: 'court',
+    title: 'The court',
+    text: 'The court has four quadrants, one per player. REY holds the gold one and collects time as REY for as long as they stay there. REY1, REY2 and MATO are next in line, in that order.',
+    anchor: 'rey',
+    label: '▼ REY'
+  },
+  {
+    id: 'move',
+    title: 'Moving',
+    text: 'Everyone starts at the bottom: you are MATO. Move around your quadrant with {move}, a gamepad stick or the on-screen joystick.',
+    anchor: 'player',
+    label: '▼ YOU',
+    goal: 'move'
+  },
+  {
+    id: 'kick',
+    title: 'Kicking',
+    text: 'A ball is coming into your quadrant. Let it bounce once (the quadrant flashes blue), then get close and press {kick}. Touching it before it bounces doesn\'t count.',
+    anchor: 'mato',
+    label: '▼ Let it bounce',
+    feed: 'low',
+    goal: 'kick'
+  },
+  {
+    id: 'head',
+    title: 'Headers',
+    text: 'This one bounces high. When the ball is above your shoulders after the bounce, press {head} to play it with your head.',
+    anchor: 'player',
+    label: '▼ Head it',
+    feed: 'high',
+    goal: 'head'
+  },
+  {
+    id: 'faults',
+    title: 'Faults',
+    text: 'A red flash is a fault. Letting the ball bounce twice in your quadrant, hitting it out or sending it back into your own quadrant are all faults. Let the next ball bounce twice to see one.',
+    anchor: 'mato',
+    label: '▼ Two bounces',
+    feed: 'low',
+    goal: 'ownFault'
+  },
+  {
+    id: 'rotation',
+    title: 'Moving up',
+    text: 'Whoever faults drops to MATO and everyone below them moves up one place. Play the ball into another quadrant. These players stand still, so they won\'t return it and you move up.',
+    anchor: 'rey2',
+    label: '▼ Aim here',
+    feed: 'low',
+    rotation: true,
+    goal: 'promoted'
+  },
+  {
+    id: 'done',
+    title: 'Ready to play',
+    text: 'That\'s the game! Make the others fault to climb up to REY, then stay there. The player with the most time as REY when the clock runs out wins.'
+  }
+];
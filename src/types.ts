@@ -0,0 +1,51 @@
+// Shapes of the Colyseus room state as the client sees it (mirrors the server schema)
+
+export interface PlayerState {
+  id: string;
+  nickname: string;
+  role: string;
+  // persistent player color provided by server (e.g. "#RRGGBB" or "hsl(h,s%,l%)")
+  color: string;
+  x: number;
+  y: number;
+  z: number;
+  rotY: number;
+  active: boolean;
+  timeAsRey: number;
+  jumping: boolean;
+  vx: number;
+  vz: number;
+  // Sequence number of the last input the server applied for this player (optional)
+  lastInputSeq?: number;
+}
+
+export interface BallState {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  lastTouchedBy: string;
+  lastBounceOnRole: string;
+  lastBounceTime: number;
+  bounceCount: number;
+}
+
+export interface GameStateSchema {
+  players: Map<string, PlayerState>;
+  ball: BallState;
+  currentServer: string;
+  queue: string[];
+  elapsed: number;
+  matchDuration: number;
+  matchStarted: boolean;
+  matchEnded: boolean;
+  waitingForServe: boolean;
+}
+
+// Continuous input only; presses (jump, kick, head) are discrete ActionMessages
+export interface InputState {
+  // Screen space from the UI (x right, y up the screen); GameScene maps it onto the court
+  move: [number, number];
+}
@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ButtonAction } from '../input/bindings.ts';
+import ActionButtons from './ActionButtons.tsx';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// What a browser dispatches for one tap on a touch screen, compatibility mouse events included
+const TAP_EVENTS = ['pointerdown', 'touchstart', 'pointerup', 'touchend', 'mousedown', 'mouseup', 'click'];
+
+describe('ActionButtons', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it.each([
+    ['.jump-button', 'jump'],
+    ['.kick-button', 'kick'],
+    ['.head-button', 'head']
+  ] as Array<[string, ButtonAction]>)('%s presses %s once per tap', (selector, action) => {
+    const onPress = vi.fn();
+    act(() => root.render(<ActionButtons onPress={onPress} />));
+
+    const button = container.querySelector(selector)!;
+    act(() => {
+      for (const type of TAP_EVENTS) button.dispatchEvent(new Event(type, { bubbles: true, cancelable: true }));
+    });
+    expect(onPress).toHaveBeenCalledTimes(1);
+    expect(onPress).toHaveBeenCalledWith(action);
+  });
+});
@@ -0,0 +1,27 @@
+import React from 'react';
+import type { ButtonAction } from '../input/bindings.ts';
+
+interface ActionButtonsProps { onPress: (action: ButtonAction) => void; }
+
+/**
+ * On-screen jump, kick and head buttons. Pointer events cover mouse and touch alike;
+ * a tap also fires touchstart and a compatibility mousedown, which must not press again.
+ */
+const ActionButtons: React.FC<ActionButtonsProps> = ({ onPress }) => (
+  <div className="right-controls">
+    <button className="action-button jump-button" onPointerDown={() => onPress('jump')}>
+      JUMP
+    </button>
+
+    <div className="action-row">
+      <button className="action-button kick-button" onPointerDown={() => onPress('kick')}>
+        KICK
+      </button>
+      <button className="action-button head-button" onPointerDown={() => onPress('head')}>
+        HEAD
+      </button>
+    </div>
+  </div>
+);
+
+export default ActionButtons;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { selectConnection, useGameStore } from '../store/gameStore.ts';
+
+interface ConnectionOverlayProps {
+  onRetry: () => void;
+  onReturnToLobby: () => void;
+}
+
+/**
+ * Blocks the game while connecting, waking the server or reconnecting,
+ * and offers a retry or a way back to the lobby once the connection has failed.
+ */
+const ConnectionOverlay: React.FC<ConnectionOverlayProps> = ({ onRetry, onReturnToLobby }) => {
+  const { status, detail } = useGameStore(selectConnection);
+  if (status === 'connected' || status === 'idle') return null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal connection-modal">
+        {status === 'failed' ? (
+          <>
+            <h2>Connection failed</h2>
+            <p className="connection-detail">{detail}</p>
+            <button onClick={onRetry}>Retry</button>
+            <button className="secondary" onClick={onReturnToLobby}>Back to lobby</button>
+          </>
+        ) : (
+          <>
+            {status === 'reconnecting' && <h2>Reconnecting…</h2>}
+            <div className="spinner" />
+            <p className="connection-detail">{detail || 'Connecting…'}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionOverlay;
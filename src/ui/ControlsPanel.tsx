@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { selectControlsSettings, settingsStore, useSettings } from '../store/settingsStore.ts';
+import {
+  ACTION_LABELS,
+  BINDABLE_ACTIONS,
+  BUTTON_ACTIONS,
+  DEFAULT_GAMEPAD_BINDINGS,
+  DEFAULT_KEY_BINDINGS,
+  GAMEPAD_BUTTON_NAMES,
+  MAX_KEYS_PER_ACTION,
+  formatKey,
+  rebindKey,
+  type BindableAction
+} from '../input/bindings.ts';
+
+interface ControlsPanelProps { onBack: () => void; }
+
+const connectedGamepadName = () =>
+  Array.from(globalThis.navigator?.getGamepads?.() ?? []).find(p => p?.connected)?.id ?? '';
+
+/** Keyboard rebinding and gamepad button mapping. Click a key slot, then press the new key. */
+const ControlsPanel: React.FC<ControlsPanelProps> = ({ onBack }) => {
+  const { keys, gamepad } = useSettings(selectControlsSettings);
+  const [listening, setListening] = useState<{ action: BindableAction; slot: number } | null>(null);
+  const [gamepadName, setGamepadName] = useState(connectedGamepadName);
+
+  useEffect(() => {
+    const update = () => setGamepadName(connectedGamepadName());
+    globalThis.addEventListener('gamepadconnected', update);
+    globalThis.addEventListener('gamepaddisconnected', update);
+    return () => {
+      globalThis.removeEventListener('gamepadconnected', update);
+      globalThis.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  // Capture phase so the key being bound never reaches the game
+  useEffect(() => {
+    if (!listening) return;
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code === 'Escape') {
+        setListening(null);
+        return;
+      }
+      const next = e.code === 'Backspace' || e.code === 'Delete'
+        ? { ...keys, [listening.action]: keys[listening.action].filter((_, i) => i !== listening.slot) }
+        : rebindKey(keys, listening.action, listening.slot, e.code);
+      settingsStore.update('controls', { keys: next });
+      setListening(null);
+    };
+    globalThis.addEventListener('keydown', capture, { capture: true });
+    return () => globalThis.removeEventListener('keydown', capture, { capture: true });
+  }, [listening, keys]);
+
+  const resetDefaults = () => {
+    settingsStore.update('controls', { keys: DEFAULT_KEY_BINDINGS, gamepad: DEFAULT_GAMEPAD_BINDINGS });
+  };
+
+  return (
+    <>
+      <section className="settings-section">
+        <h3>Keyboard</h3>
+        {BINDABLE_ACTIONS.map(action => (
+          <div key={action} className="settings-row">
+            <span>{ACTION_LABELS[action]}</span>
+            <span className="key-slots">
+              {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+                const code = keys[action]?.[slot];
+                const isListening = listening?.action === action && listening.slot === slot;
+                return (
+                  <button
+                    key={slot}
+                    className={`key-slot ${isListening ? 'listening' : ''}`}
+                    onClick={() => setListening({ action, slot })}
+                  >
+                    {isListening ? 'Press a key…' : code ? formatKey(code) : '—'}
+                  </button>
+                );
+              })}
+            </span>
+          </div>
+        ))}
+        {listening && <p className="settings-hint">Esc cancels · Backspace clears the slot</p>}
+      </section>
+
+      <section className="settings-section">
+        <h3>Gamepad</h3>
+        <p className="settings-hint">{gamepadName ? `🎮 ${gamepadName}` : 'No gamepad detected – press a button on it'}</p>
+        {BUTTON_ACTIONS.map(action => (
+          <label key={action} className="settings-row">
+            <span>{ACTION_LABELS[action]}</span>
+            <select
+              value={gamepad.buttons[action]}
+              onChange={(e) => settingsStore.update('controls', {
+                gamepad: { ...gamepad, buttons: { ...gamepad.buttons, [action]: Number(e.target.value) } }
+              })}
+            >
+              {GAMEPAD_BUTTON_NAMES.map((name, index) => (
+                <option key={index} value={index}>{name}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="settings-row">
+          <span>Stick deadzone ({Math.round(gamepad.deadzone * 100)}%)</span>
+          <input
+            type="range"
+            min={0}
+            max={0.5}
+            step={0.05}
+            value={gamepad.deadzone}
+            onChange={(e) => settingsStore.update('controls', { gamepad: { ...gamepad, deadzone: Number(e.target.value) } })}
+          />
+        </label>
+      </section>
+
+      <button className="secondary" onClick={resetDefaults}>Reset to defaults</button>
+      <button onClick={onBack}>Back</button>
+    </>
+  );
+};
+
+export default ControlsPanel;
@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gameStore, pushError, resetGameStore } from '../store/gameStore.ts';
+import ErrorToasts from './ErrorToasts.tsx';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('ErrorToasts', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    act(() => root.render(<ErrorToasts />));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    resetGameStore(gameStore);
+    vi.useRealTimers();
+  });
+
+  const messages = () => Array.from(container.querySelectorAll('.error-toast'), toast => toast.textContent);
+
+  it('dismisses each toast on its own schedule while new ones keep arriving', () => {
+    act(() => pushError(gameStore, 'first'));
+    act(() => vi.advanceTimersByTime(4000));
+    act(() => pushError(gameStore, 'second'));
+    act(() => vi.advanceTimersByTime(2000));
+    expect(messages()).toEqual(['⚠️ second']);
+
+    act(() => pushError(gameStore, 'third'));
+    act(() => vi.advanceTimersByTime(4000));
+    expect(messages()).toEqual(['⚠️ third']);
+  });
+});
@@ -0,0 +1,31 @@
+import React, { useEffect } from 'react';
+import { dismissError, gameStore, selectErrors, useGameStore, type ErrorEntry } from '../store/gameStore.ts';
+
+const TOAST_DURATION_MS = 6000;
+
+// Each toast times out on its own, so a burst of new errors doesn't keep old ones up
+const ErrorToast: React.FC<{ error: ErrorEntry }> = ({ error }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => dismissError(gameStore, error.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [error.id]);
+
+  return (
+    <button className="error-toast" onClick={() => dismissError(gameStore, error.id)}>
+      ⚠️ {error.message}
+    </button>
+  );
+};
+
+const ErrorToasts: React.FC = () => {
+  const errors = useGameStore(selectErrors);
+  if (errors.length === 0) return null;
+
+  return (
+    <div className="error-toasts">
+      {errors.map(error => <ErrorToast key={error.id} error={error} />)}
+    </div>
+  );
+};
+
+export default ErrorToasts;
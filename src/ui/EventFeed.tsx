@@ -0,0 +1,18 @@
+import React from 'react';
+import { selectFeed, useGameStore } from '../store/gameStore.ts';
+
+/** Running log of rule events: touches, bounces, faults and why roles rotated. */
+const EventFeed: React.FC = () => {
+  const items = useGameStore(selectFeed);
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="event-feed">
+      {items.map(item => (
+        <li key={item.id} className={`event-feed-item ${item.tone}`}>{item.text}</li>
+      ))}
+    </ul>
+  );
+};
+
+export default EventFeed;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import {
+  selectConnection,
+  selectMatch,
+  selectNetwork,
+  selectPlayer,
+  selectPractice,
+  selectReplay,
+  selectRole,
+  selectSpectator,
+  selectTutorial,
+  useGameStore
+} from '../store/gameStore.ts';
+import { formatTime, getRoleDisplayName } from './format.ts';
+import QueuePanel from './QueuePanel.tsx';
+import Scoreboard from './Scoreboard.tsx';
+import EventFeed from './EventFeed.tsx';
+import SettingsPanel from './SettingsPanel.tsx';
+import { selectDisplaySettings, useSettings } from '../store/settingsStore.ts';
+
+// Each piece subscribes to its own slice so a patch only re-renders what changed
+
+const RoleDisplay: React.FC = () => {
+  const role = useGameStore(selectRole);
+  const spectating = useGameStore(s => selectSpectator(s).active);
+  if (spectating) return <div className="role-display">👁 SPECTATING</div>;
+  return <div className="role-display">{getRoleDisplayName(role)}</div>;
+};
+
+const FINAL_SECONDS_WARNING = 30;
+
+const MatchTime: React.FC = () => {
+  const { elapsed, duration } = useGameStore(selectMatch);
+  // Without a known duration fall back to elapsed time
+  if (!duration) return <div className="time-display">Match: {formatTime(elapsed)}</div>;
+
+  const remaining = Math.max(0, duration - elapsed);
+  const warning = remaining <= FINAL_SECONDS_WARNING;
+  return (
+    <div className={`time-display ${warning ? 'warning' : ''}`}>
+      ⏱ {formatTime(remaining)}
+    </div>
+  );
+};
+
+const ReyTime: React.FC = () => {
+  const { role, timeAsRey } = useGameStore(selectPlayer);
+  if (role !== 'rey') return null;
+  return <div className="rey-time">Rey Time: {formatTime(timeAsRey)}</div>;
+};
+
+const RoomCode: React.FC = () => {
+  const roomId = useGameStore(s => selectConnection(s).roomId);
+  if (!roomId) return null;
+  const copyLink = () => {
+    void navigator.clipboard?.writeText(globalThis.location.href);
+  };
+  return (
+    <button className="room-code" onClick={copyLink} title="Copy invite link">
+      Room {roomId} 🔗
+    </button>
+  );
+};
+
+const ConnectionBadge: React.FC = () => {
+  const status = useGameStore(s => selectConnection(s).status);
+  const replaying = useGameStore(s => selectReplay(s).active);
+  const practicing = useGameStore(selectPractice);
+  const inTutorial = useGameStore(s => selectTutorial(s).active);
+  let label = '🔴 Disconnected';
+  if (replaying) label = '🎬 Replay';
+  else if (inTutorial) label = '📘 Tutorial';
+  else if (practicing) label = '🤖 Practice';
+  else if (status === 'connected') label = '🟢 Connected';
+  else if (status === 'reconnecting') label = '🟡 Reconnecting…';
+  return <div className="connection-status">{label}</div>;
+};
+
+const formatRate = (bytesPerSecond: number) =>
+  bytesPerSecond >= 1024 ? `${(bytesPerSecond / 1024).toFixed(1)} KB/s` : `${bytesPerSecond} B/s`;
+
+const NetStats: React.FC = () => {
+  const visible = useSettings(s => selectDisplaySettings(s).showNetStats);
+  const { sentBytesPerSecond, receivedBytesPerSecond, inputsPerSecond } = useGameStore(selectNetwork);
+  if (!visible) return null;
+  return (
+    <div className="net-stats">
+      ↑ {formatRate(sentBytesPerSecond)} · ↓ {formatRate(receivedBytesPerSecond)} · {inputsPerSecond} inputs/s
+    </div>
+  );
+};
+
+const SettingsButton: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <button className="settings-button" onClick={() => setOpen(true)} aria-label="Settings">⚙️</button>
+      {open && <SettingsPanel onClose={() => setOpen(false)} />}
+    </>
+  );
+};
+
+interface HudProps {
+  onDownloadReplay: () => void;
+}
+
+const ReplayDownloadButton: React.FC<HudProps> = ({ onDownloadReplay }) => {
+  const connected = useGameStore(s => selectConnection(s).status === 'connected');
+  const practicing = useGameStore(selectPractice);
+  if (!connected && !practicing) return null;
+  return (
+    <button className="settings-button" onClick={onDownloadReplay} aria-label="Download replay" title="Download replay">
+      💾
+    </button>
+  );
+};
+
+const Hud: React.FC<HudProps> = ({ onDownloadReplay }) => (
+  <div className="hud">
+    <div className="hud-top">
+      <RoleDisplay />
+      <div className="hud-top-right">
+        <MatchTime />
+        <ReplayDownloadButton onDownloadReplay={onDownloadReplay} />
+        <SettingsButton />
+      </div>
+    </div>
+    <ReyTime />
+    <RoomCode />
+    <ConnectionBadge />
+    <NetStats />
+    <QueuePanel />
+    <div className="hud-right">
+      <Scoreboard />
+      <EventFeed />
+    </div>
+  </div>
+);
+
+export default Hud;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { selectInstantReplay, useGameStore } from '../store/gameStore.ts';
+
+interface InstantReplayBannerProps { onSkip: () => void; }
+
+/** Marks the slow-motion rally replay and lets the player skip straight back to live. */
+const InstantReplayBanner: React.FC<InstantReplayBannerProps> = ({ onSkip }) => {
+  const active = useGameStore(selectInstantReplay);
+  if (!active) return null;
+
+  return (
+    <div className="instant-replay-banner">
+      <span className="instant-replay-label">⏪ REPLAY</span>
+      <button onClick={onSkip}>Skip ⏭</button>
+    </div>
+  );
+};
+
+export default InstantReplayBanner;
@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { JoinTarget, RoomListing } from '../net/ConnectionManager.ts';
+import { loadTutorialProgress } from '../tutorial/tutorialProgress.ts';
+import { BOT_DIFFICULTIES, BOT_PROFILES, isBotDifficulty, type BotDifficulty } from '../offline/BotController.ts';
+
+interface LobbyProps {
+  nickname: string;
+  initialRoomCode: string;
+  onNicknameChange: (nickname: string) => void;
+  onJoin: (target: JoinTarget, spectator: boolean) => void;
+  listRooms: () => Promise<RoomListing[]>;
+  onWatchReplay: (file: File) => Promise<void>;
+  onPractice: (difficulty: BotDifficulty) => void;
+  onTutorial: () => void;
+}
+
+const REFRESH_INTERVAL_MS = 5000;
+
+// Accept either a bare room code or a pasted share link containing ?room=
+export const parseRoomCode = (input: string): string => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/[?&]room=([^&#\s]+)/);
+  return match ? decodeURIComponent(match[1]) : trimmed;
+};
+
+const getRoomStatus = (room: RoomListing) => {
+  if (room.metadata?.matchEnded) return 'Finished';
+  if (room.metadata?.matchStarted) return 'In match';
+  return 'Waiting';
+};
+
+/**
+ * Start screen: nickname entry plus a browser of open rooms, private room creation,
+ * joining by room code or shared link, the tutorial and offline practice against bots.
+ */
+const Lobby: React.FC<LobbyProps> = ({ nickname, initialRoomCode, onNicknameChange, onJoin: onJoinAs, listRooms, onWatchReplay, onPractice, onTutorial }) => {
+  const [rooms, setRooms] = useState<RoomListing[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [listError, setListError] = useState('');
+  const [roomCode, setRoomCode] = useState(initialRoomCode);
+  const [replayError, setReplayError] = useState('');
+  const [spectate, setSpectate] = useState(false);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('normal');
+  const [tutorialFinished] = useState(() => loadTutorialProgress().finished);
+  const onJoin = (target: JoinTarget) => onJoinAs(target, spectate);
+  const hasNickname = nickname.trim().length > 0;
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRooms(await listRooms());
+      setListError('');
+    } catch (error) {
+      console.warn('Failed to list rooms:', error);
+      setListError('Server unavailable – it may be waking up');
+    } finally {
+      setLoading(false);
+    }
+  }, [listRooms]);
+
+  useEffect(() => {
+    void refresh();
+    const interval = setInterval(() => { void refresh(); }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const joinByCode = () => {
+    const code = parseRoomCode(roomCode);
+    if (code && hasNickname) onJoin({ mode: 'join', roomId: code });
+  };
+
+  const watchReplay = (file: File | undefined) => {
+    if (!file) return;
+    setReplayError('');
+    onWatchReplay(file).catch((error: unknown) => {
+      setReplayError(error instanceof Error ? error.message : 'Could not open replay');
+    });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal lobby-modal">
+        <h2>Rey Mato</h2>
+        <p>Enter your nickname to join the game:</p>
+        <input
+          type="text"
+          value={nickname}
+          onChange={(e) => onNicknameChange(e.target.value)}
+          placeholder="Your nickname"
+          maxLength={15}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return;
+            if (initialRoomCode) joinByCode();
+            else if (hasNickname) onJoin({ mode: 'quick' });
+          }}
+        />
+
+        {initialRoomCode ? (
+          <button onClick={joinByCode} disabled={!hasNickname}>
+            Join room {parseRoomCode(initialRoomCode)}
+          </button>
+        ) : (
+          <button onClick={() => onJoin({ mode: 'quick' })} disabled={!hasNickname}>
+            Quick Play
+          </button>
+        )}
+        <button className="secondary" onClick={() => onJoin({ mode: 'create', private: true })} disabled={!hasNickname}>
+          Create Private Room
+        </button>
+
+        <button className={tutorialFinished ? 'secondary' : ''} onClick={onTutorial}>
+          {tutorialFinished ? '📘 How to Play ✓' : '📘 New here? Learn to play'}
+        </button>
+
+        <div className="lobby-practice">
+          <button className="secondary" onClick={() => onPractice(botDifficulty)}>
+            🤖 Practice Offline
+          </button>
+          <select
+            value={botDifficulty}
+            onChange={(e) => isBotDifficulty(e.target.value) && setBotDifficulty(e.target.value)}
+            aria-label="Bot difficulty"
+          >
+            {BOT_DIFFICULTIES.map(difficulty => (
+              <option key={difficulty} value={difficulty}>{BOT_PROFILES[difficulty].label} bots</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="lobby-spectate">
+          <input type="checkbox" checked={spectate} onChange={(e) => setSpectate(e.target.checked)} />
+          👁 Join as spectator
+        </label>
+
+        <div className="lobby-code">
+          <input
+            type="text"
+            value={roomCode}
+            onChange={(e) => setRoomCode(e.target.value)}
+            placeholder="Room code or link"
+            onKeyDown={(e) => e.key === 'Enter' && joinByCode()}
+          />
+          <button onClick={joinByCode} disabled={!hasNickname || !parseRoomCode(roomCode)}>
+            Join
+          </button>
+        </div>
+
+        <div className="lobby-rooms">
+          <div className="lobby-rooms-header">
+            <span>Open rooms</span>
+            <button className="link-button" onClick={() => void refresh()} disabled={loading}>
+              {loading ? '…' : '↻'}
+            </button>
+          </div>
+          {listError && <div className="lobby-empty">{listError}</div>}
+          {!listError && rooms.length === 0 && (
+            <div className="lobby-empty">{loading ? 'Loading rooms…' : 'No open rooms – Quick Play creates one'}</div>
+          )}
+          {rooms.map(room => (
+            <button
+              key={room.roomId}
+              className="lobby-room"
+              onClick={() => onJoin({ mode: 'join', roomId: room.roomId })}
+              disabled={!hasNickname}
+            >
+              <span className="lobby-room-code">{room.roomId}</span>
+              <span className="lobby-room-status">{getRoomStatus(room)}</span>
+              <span className="lobby-room-count">{room.clients}/{room.maxClients || '∞'}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="lobby-replay">
+          <label>
+            🎬 Watch a replay file
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                watchReplay(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {replayError && <div className="lobby-empty">{replayError}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Lobby;
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gameStore, resetGameStore } from '../store/gameStore.ts';
+import MatchEndScreen from './MatchEndScreen.tsx';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Two players kept the default name
+const entries = [
+  { id: 'a', nickname: 'Player', timeAsRey: 90 },
+  { id: 'b', nickname: 'Player', timeAsRey: 30 }
+];
+
+describe('MatchEndScreen', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    resetGameStore(gameStore);
+  });
+
+  const show = (myId: string) => {
+    gameStore.update('player', { id: myId });
+    gameStore.update('leaderboard', { entries, visible: true });
+    act(() => root.render(<MatchEndScreen onRematch={() => {}} onReturnToLobby={() => {}} onDownloadReplay={() => {}} />));
+  };
+
+  const rows = () => Array.from(container.querySelectorAll('.leaderboard-entry'), row => row.classList.contains('me'));
+
+  it('tells apart players with the same nickname', () => {
+    show('b');
+    expect(container.querySelector('.match-winner')?.textContent).toBe('Player is the Rey of the match! 👑');
+    expect(rows()).toEqual([false, true]);
+  });
+
+  it('calls out the winner by id', () => {
+    show('a');
+    expect(container.querySelector('.match-winner')?.textContent).toBe('You are the Rey of the match! 👑');
+    expect(rows()).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { selectLeaderboard, selectPlayer, useGameStore } from '../store/gameStore.ts';
+import type { LeaderboardEntry } from '../net/protocol.ts';
+import { formatTime } from './format.ts';
+
+interface MatchEndScreenProps {
+  onRematch: () => void;
+  onReturnToLobby: () => void;
+  onDownloadReplay: () => void;
+}
+
+/**
+ * Post-match flow: final ranking with the winner called out, then either stay for a
+ * rematch in the same room or go back to the lobby.
+ */
+const MatchEndScreen: React.FC<MatchEndScreenProps> = ({ onRematch, onReturnToLobby, onDownloadReplay }) => {
+  const { entries, visible } = useGameStore(selectLeaderboard);
+  const myId = useGameStore(s => selectPlayer(s).id);
+  if (!visible) return null;
+
+  const winner = entries[0];
+  // By session id: nicknames aren't unique
+  const isMe = (entry: LeaderboardEntry) => !!entry.id && entry.id === myId;
+  const iWon = !!winner && isMe(winner);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal leaderboard-modal">
+        <h2>🏆 Match Over</h2>
+        {winner && (
+          <p className="match-winner">
+            {iWon ? 'You are the Rey of the match! 👑' : `${winner.nickname} is the Rey of the match! 👑`}
+          </p>
+        )}
+        <div className="leaderboard">
+          {entries.map((entry, index) => (
+            <div
+              key={entry.id ?? `${entry.nickname}-${index}`}
+              className={`leaderboard-entry ${index === 0 ? 'winner' : ''} ${isMe(entry) ? 'me' : ''}`}
+            >
+              <span className="rank">#{index + 1}</span>
+              <span className="name">{entry.nickname}</span>
+              <span className="time">{formatTime(entry.timeAsRey)}</span>
+            </div>
+          ))}
+        </div>
+        <button onClick={onRematch}>Rematch</button>
+        <button className="secondary" onClick={onReturnToLobby}>Return to Lobby</button>
+        <button className="link-button" onClick={onDownloadReplay}>💾 Download replay</button>
+      </div>
+    </div>
+  );
+};
+
+export default MatchEndScreen;
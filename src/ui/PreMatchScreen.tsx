@@ -0,0 +1,25 @@
+import React from 'react';
+import { selectConnection, selectMatch, selectPlayers, useGameStore } from '../store/gameStore.ts';
+
+const COURT_SPOTS = 4;
+
+/** Shown while connected to a room whose match hasn't started yet. */
+const PreMatchScreen: React.FC = () => {
+  const { started, ended } = useGameStore(selectMatch);
+  const { status, roomId } = useGameStore(selectConnection);
+  const playerCount = useGameStore(s => selectPlayers(s).length);
+  if (status !== 'connected' || started || ended) return null;
+
+  return (
+    <div className="pre-match">
+      <h2>Waiting for players…</h2>
+      <div className="pre-match-count">
+        {Math.min(playerCount, COURT_SPOTS)}/{COURT_SPOTS} on court
+        {playerCount > COURT_SPOTS && ` · ${playerCount - COURT_SPOTS} queued`}
+      </div>
+      {roomId && <p>Invite friends with room code <strong>{roomId}</strong></p>}
+    </div>
+  );
+};
+
+export default PreMatchScreen;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { COURT_ROLES } from '../net/protocol.ts';
+import {
+  selectPlayer,
+  selectPlayers,
+  selectQueue,
+  useGameStore
+} from '../store/gameStore.ts';
+import { formatTime, getRoleDisplayName } from './format.ts';
+
+// Each rotation lets the first queued player onto the court
+const formatEta = (rotationsAhead: number, avgRotationSeconds: number | null) => {
+  const rotations = `${rotationsAhead} rotation${rotationsAhead === 1 ? '' : 's'}`;
+  if (avgRotationSeconds === null) return `in ${rotations}`;
+  return `in ~${formatTime(rotationsAhead * avgRotationSeconds)} (${rotations})`;
+};
+
+/**
+ * Who is on the court and who is waiting, in order. Expanded by default while you are
+ * queued, collapsed to a one-line summary otherwise.
+ */
+const QueuePanel: React.FC = () => {
+  const { ids, avgRotationSeconds } = useGameStore(selectQueue);
+  const players = useGameStore(selectPlayers);
+  const me = useGameStore(selectPlayer);
+  const [expanded, setExpanded] = useState<boolean | null>(null);
+
+  const isQueued = me.role === 'queue';
+  const open = expanded ?? isQueued;
+  const byId = new Map(players.map(p => [p.id, p]));
+  const myPosition = ids.indexOf(me.id);
+
+  return (
+    <div className={`queue-panel ${isQueued ? 'queued' : ''}`}>
+      <button className="queue-panel-header" onClick={() => setExpanded(!open)}>
+        <span>⏳ Queue ({ids.length})</span>
+        {myPosition >= 0 && <span className="queue-you">You: #{myPosition + 1}</span>}
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="queue-panel-body">
+          <div className="queue-court">
+            {COURT_ROLES.map(role => {
+              const holder = players.find(p => p.role === role);
+              return (
+                <div key={role} className={`queue-court-row ${holder?.id === me.id ? 'me' : ''}`}>
+                  <span className="queue-role">{getRoleDisplayName(role)}</span>
+                  <span className="queue-name">{holder ? holder.nickname : '—'}</span>
+                  <span className="queue-time">{holder ? formatTime(holder.timeAsRey) : ''}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {ids.length === 0 ? (
+            <div className="queue-empty">Nobody waiting</div>
+          ) : (
+            <ol className="queue-list">
+              {ids.map((id, index) => (
+                <li key={id} className={id === me.id ? 'me' : ''}>
+                  <span className="queue-name">{byId.get(id)?.nickname ?? id}</span>
+                  {id === me.id && (
+                    <span className="queue-eta">{formatEta(index + 1, avgRotationSeconds)}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueuePanel;
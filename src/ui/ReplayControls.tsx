@@ -0,0 +1,41 @@
+import React from 'react';
+import { selectReplay, useGameStore } from '../store/gameStore.ts';
+import { formatTime } from './format.ts';
+
+interface ReplayControlsProps {
+  onPlayPause: (playing: boolean) => void;
+  onSeek: (seconds: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/** Transport bar for replay mode; drag the scene to orbit the camera. */
+const ReplayControls: React.FC<ReplayControlsProps> = ({ onPlayPause, onSeek, onSpeedChange, onExit }) => {
+  const { active, time, duration, playing, speed } = useGameStore(selectReplay);
+  if (!active) return null;
+
+  return (
+    <div className="replay-controls">
+      <button onClick={() => onPlayPause(!playing)} aria-label={playing ? 'Pause' : 'Play'}>
+        {playing ? '⏸' : '▶'}
+      </button>
+      <span className="replay-time">{formatTime(time)} / {formatTime(duration)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.1}
+        value={time}
+        onChange={(e) => onSeek(Number(e.target.value))}
+      />
+      <select value={speed} onChange={(e) => onSpeedChange(Number(e.target.value))}>
+        {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <button className="secondary" onClick={onExit}>Exit</button>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,72 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { selectPlayer, selectPlayers, useGameStore } from '../store/gameStore.ts';
+import { formatTime, getRoleEmoji } from './format.ts';
+
+const RANK_ANIMATION = 'transform 0.4s ease';
+
+/**
+ * Live ranking of every player by time as Rey. Rows slide to their new place when the
+ * order changes (FLIP: measure old and new offsets, then animate the difference).
+ */
+const Scoreboard: React.FC = () => {
+  const players = useGameStore(selectPlayers);
+  const myId = useGameStore(s => selectPlayer(s).id);
+  const [open, setOpen] = useState(true);
+
+  const ranked = useMemo(
+    () => [...players].sort((a, b) => b.timeAsRey - a.timeAsRey || a.nickname.localeCompare(b.nickname)),
+    [players]
+  );
+  const orderKey = ranked.map(p => p.id).join(',');
+
+  const rowRefs = useRef(new Map<string, HTMLLIElement>());
+  const previousTops = useRef(new Map<string, number>());
+
+  useLayoutEffect(() => {
+    const tops = new Map<string, number>();
+    for (const [id, row] of rowRefs.current) {
+      const top = row.offsetTop;
+      tops.set(id, top);
+      const previous = previousTops.current.get(id);
+      if (previous === undefined || previous === top) continue;
+      row.style.transition = 'none';
+      row.style.transform = `translateY(${previous - top}px)`;
+      requestAnimationFrame(() => {
+        row.style.transition = RANK_ANIMATION;
+        row.style.transform = '';
+      });
+    }
+    previousTops.current = tops;
+  }, [orderKey, open]);
+
+  return (
+    <div className="scoreboard">
+      <button className="scoreboard-header" onClick={() => setOpen(!open)}>
+        <span>🏆 Rey Time</span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+      {open && (
+        <ol className="scoreboard-list">
+          {ranked.map((player, index) => (
+            <li
+              key={player.id}
+              ref={(el) => {
+                if (el) rowRefs.current.set(player.id, el);
+                else rowRefs.current.delete(player.id);
+              }}
+              className={`scoreboard-row ${player.id === myId ? 'me' : ''}`}
+            >
+              <span className="scoreboard-rank">{index + 1}</span>
+              <span className="scoreboard-swatch" style={{ background: player.color || '#808080' }} />
+              <span className="scoreboard-role">{getRoleEmoji(player.role)}</span>
+              <span className="scoreboard-name">{player.nickname}</span>
+              <span className="scoreboard-time">{formatTime(player.timeAsRey)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default Scoreboard;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { selectCameraSettings, selectDisplaySettings, settingsStore, useSettings } from '../store/settingsStore.ts';
+import { CAMERA_RIGS, isCameraRigId } from '../game/cameraRigs.ts';
+import ControlsPanel from './ControlsPanel.tsx';
+
+interface SettingsPanelProps { onClose: () => void; }
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const display = useSettings(selectDisplaySettings);
+  const camera = useSettings(selectCameraSettings);
+  const [showControls, setShowControls] = useState(false);
+
+  if (showControls) {
+    return (
+      <div className="modal-overlay">
+        <div className="modal settings-modal">
+          <h2>🎮 Controls</h2>
+          <ControlsPanel onBack={() => setShowControls(false)} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal settings-modal">
+        <h2>⚙️ Settings</h2>
+
+        <section className="settings-section">
+          <h3>Display</h3>
+          <label className="settings-row">
+            <span>Ball trajectory &amp; landing marker</span>
+            <input
+              type="checkbox"
+              checked={display.showTrajectory}
+              onChange={(e) => settingsStore.update('display', { showTrajectory: e.target.checked })}
+            />
+          </label>
+          <label className="settings-row">
+            <span>Instant replay after each rally</span>
+            <input
+              type="checkbox"
+              checked={display.instantReplay}
+              onChange={(e) => settingsStore.update('display', { instantReplay: e.target.checked })}
+            />
+          </label>
+          <label className="settings-row">
+            <span>Network stats (debug)</span>
+            <input
+              type="checkbox"
+              checked={display.showNetStats}
+              onChange={(e) => settingsStore.update('display', { showNetStats: e.target.checked })}
+            />
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3>Camera</h3>
+          <label className="settings-row">
+            <span>View</span>
+            <select
+              value={camera.rig}
+              onChange={(e) => {
+                if (isCameraRigId(e.target.value)) settingsStore.update('camera', { rig: e.target.value });
+              }}
+            >
+              {Object.values(CAMERA_RIGS).map(rig => (
+                <option key={rig.id} value={rig.id}>{rig.label}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3>Controls</h3>
+          <div className="settings-row">
+            <span>Keyboard &amp; gamepad</span>
+            <button className="link-button" onClick={() => setShowControls(true)}>Customize…</button>
+          </div>
+        </section>
+
+        <button onClick={onClose}>Done</button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,65 @@
+import React, { useEffect } from 'react';
+import { selectPlayers, selectSpectator, useGameStore } from '../store/gameStore.ts';
+import { SPECTATOR_VIEWS, SPECTATOR_VIEW_LABELS, type SpectatorView } from '../game/SpectatorCamera.ts';
+import { getRoleDisplayName } from './format.ts';
+
+interface SpectatorBarProps {
+  onViewChange: (view: SpectatorView) => void;
+  onCycleTarget: (direction: 1 | -1) => void;
+}
+
+/**
+ * Camera view picker for spectators. Hotkeys: 1–5 pick a view, C cycles views,
+ * [ and ] switch the followed player.
+ */
+const SpectatorBar: React.FC<SpectatorBarProps> = ({ onViewChange, onCycleTarget }) => {
+  const { active, view, targetId } = useGameStore(selectSpectator);
+  const target = useGameStore(s => selectPlayers(s).find(p => p.id === targetId));
+
+  useEffect(() => {
+    if (!active) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      const index = Number(e.key) - 1;
+      if (index >= 0 && index < SPECTATOR_VIEWS.length) {
+        onViewChange(SPECTATOR_VIEWS[index]);
+      } else if (e.key.toLowerCase() === 'c') {
+        onViewChange(SPECTATOR_VIEWS[(SPECTATOR_VIEWS.indexOf(view) + 1) % SPECTATOR_VIEWS.length]);
+      } else if (e.key === '[') {
+        onCycleTarget(-1);
+      } else if (e.key === ']') {
+        onCycleTarget(1);
+      }
+    };
+    globalThis.addEventListener('keydown', handleKey);
+    return () => globalThis.removeEventListener('keydown', handleKey);
+  }, [active, view, onViewChange, onCycleTarget]);
+
+  if (!active) return null;
+
+  return (
+    <div className="spectator-bar">
+      <div className="spectator-views">
+        {SPECTATOR_VIEWS.map((v, index) => (
+          <button
+            key={v}
+            className={v === view ? 'active' : ''}
+            onClick={() => onViewChange(v)}
+            title={`${SPECTATOR_VIEW_LABELS[v]} (${index + 1})`}
+          >
+            {SPECTATOR_VIEW_LABELS[v]}
+          </button>
+        ))}
+      </div>
+      {view === 'follow-player' && (
+        <div className="spectator-target">
+          <button onClick={() => onCycleTarget(-1)} aria-label="Previous player">◀</button>
+          <span>{target ? `${target.nickname} · ${getRoleDisplayName(target.role)}` : 'Nobody to follow'}</span>
+          <button onClick={() => onCycleTarget(1)} aria-label="Next player">▶</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpectatorBar;
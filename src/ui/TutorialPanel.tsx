@@ -0,0 +1,51 @@
+import React from 'react';
+import { selectTutorial, useGameStore } from '../store/gameStore.ts';
+import { selectControlsSettings, useSettings } from '../store/settingsStore.ts';
+import { formatKey, type KeyBindings } from '../input/bindings.ts';
+import { TUTORIAL_STEPS } from '../tutorial/tutorialSteps.ts';
+
+interface TutorialPanelProps {
+  onNext: () => void;
+  onFinish: () => void;
+  onExit: () => void;
+}
+
+const keyList = (codes: string[]) => codes.length ? codes.map(formatKey).join(' / ') : 'its button';
+
+// Step texts name the player's own keys, not the defaults
+const fillBindings = (text: string, keys: KeyBindings) => text
+  .replace('{move}', [keys.up, keys.left, keys.down, keys.right].map(codes => codes[0] ? formatKey(codes[0]) : '').join(' '))
+  .replace('{kick}', keyList(keys.kick))
+  .replace('{head}', keyList(keys.head));
+
+/**
+ * Instructions for the current tutorial step. Steps with a goal move on by themselves once
+ * it's reached; the others wait for "Next".
+ */
+const TutorialPanel: React.FC<TutorialPanelProps> = ({ onNext, onFinish, onExit }) => {
+  const { active, step, stepDone } = useGameStore(selectTutorial);
+  const keys = useSettings(s => selectControlsSettings(s).keys);
+  if (!active) return null;
+
+  const current = TUTORIAL_STEPS[step];
+  const last = step === TUTORIAL_STEPS.length - 1;
+
+  let action: React.ReactNode;
+  if (last) action = <button onClick={onFinish}>Finish</button>;
+  else if (!current.goal) action = <button onClick={onNext}>Next</button>;
+  else action = <span className="tutorial-status">{stepDone ? '✅ Nice!' : 'Your turn…'}</span>;
+
+  return (
+    <div className="tutorial-panel">
+      <div className="tutorial-progress">Step {step + 1} of {TUTORIAL_STEPS.length}</div>
+      <h3>{current.title}</h3>
+      <p>{fillBindings(current.text, keys)}</p>
+      <div className="tutorial-actions">
+        {!last && <button className="link-button" onClick={onExit}>Skip tutorial</button>}
+        {action}
+      </div>
+    </div>
+  );
+};
+
+export default TutorialPanel;
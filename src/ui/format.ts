@@ -0,0 +1,28 @@
+export const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(whole / 60);
+  const secs = whole % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const getRoleDisplayName = (role: string) => {
+  switch (role) {
+    case 'rey': return 'REY 👑';
+    case 'rey1': return 'REY 1';
+    case 'rey2': return 'REY 2';
+    case 'mato': return 'MATO';
+    case 'queue': return 'WAITING...';
+    default: return role.toUpperCase();
+  }
+};
+
+export const getRoleEmoji = (role: string) => {
+  switch (role) {
+    case 'rey': return '👑';
+    case 'rey1': return '🥈';
+    case 'rey2': return '🥉';
+    case 'mato': return '💩';
+    case 'queue': return '⏳';
+    default: return '🔵';
+  }
+};